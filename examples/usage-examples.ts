@@ -1,6 +1,7 @@
 // Real-World Usage Examples for GeoContext MCP Server
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ItineraryStop } from '../src/types/index.js';
 
 // Example 1: AI-Powered City Tour Guide
 class AITourGuide {
@@ -13,25 +14,26 @@ class AITourGuide {
     accessibility: string[];
     startLocation: { lat: number; lng: number };
   }) {
-    // Generate route based on interests and time constraints
-    const route = await this.mcpClient.callTool('generate_route', {
+    // Plan a loop through matching stops that fits the available time
+    const tour = await this.mcpClient.callTool('plan_tour', {
       start: userPreferences.startLocation,
-      end: userPreferences.startLocation, // Circular route
       profile: userPreferences.accessibility.includes('wheelchair') ? 'wheelchair' : 'walking',
       interests: userPreferences.interests,
-      bufferRadius: 200, // Tighter radius for walking tours
+      timeBudget: userPreferences.duration * 60, // minutes
+      dwellTimes: { cultural: 60, historical: 20 }, // minutes per stop type
     });
     
     // Get detailed context for each stop
-    const stops = await this.enrichTourStops(route.pins);
+    const stops = await this.enrichTourStops(tour.itinerary.map((stop: ItineraryStop) => stop.pin));
     
     // Generate AI narrative
     const narrative = await this.generateTourNarrative(stops, userPreferences);    
     return {
-      route: route.route,
+      route: tour.route.route,
+      itinerary: tour.itinerary, // arrival and departure times per stop
       stops,
       narrative,
-      estimatedDuration: this.calculateDuration(route, stops),
+      endTime: tour.endTime,
     };
   }
   
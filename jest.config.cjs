@@ -9,6 +9,7 @@ module.exports = {
     '^.+\\.ts$': ['ts-jest', {
       useESM: true,
       tsconfig: {
+        rootDir: '.',
         module: 'esnext',
         target: 'es2022',
         lib: ['es2022'],
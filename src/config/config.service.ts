@@ -8,10 +8,16 @@ const __dirname = path.dirname(__filename);
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, '../../.env') });
 
+export type TransportMode = 'stdio' | 'http';
+
+export const ROUTING_PROVIDERS = ['openrouteservice', 'osrm', 'valhalla', 'graphhopper', 'mapbox'] as const;
+export type RoutingProviderName = typeof ROUTING_PROVIDERS[number];
+
 export interface AppConfig {
   // API Keys
   openRouteApiKey?: string;
   mapboxApiKey?: string;
+  graphhopperApiKey?: string;
   wikipediaApiKey?: string;
   historicMapsApiKey?: string;
   weatherApiKey?: string;
@@ -23,10 +29,17 @@ export interface AppConfig {
   cacheTTL: number;
 
   // Server Configuration
+  transport: TransportMode;
   port: number;
   logLevel: string;
   maxConcurrentRequests: number;
 
+  // Routing Configuration
+  routingProvider?: RoutingProviderName; // Unset when no provider is usable (straight-line fallback)
+  routingBaseUrl?: string; // Overrides the provider's default API URL, e.g. for self-hosted engines
+  routingLanguage: string; // Default turn-by-turn instruction language
+  offlineMapPath?: string; // OSM extract (.osm or .osm.pbf) for the offline router
+
   // Timeout Configuration (in milliseconds)
   timeouts: {
     routingApi: number;
@@ -67,6 +80,7 @@ class ConfigService {
       // API Keys
       openRouteApiKey: process.env.OPENROUTE_API_KEY,
       mapboxApiKey: process.env.MAPBOX_API_KEY,
+      graphhopperApiKey: process.env.GRAPHHOPPER_API_KEY,
       wikipediaApiKey: process.env.WIKIPEDIA_API_KEY,
       historicMapsApiKey: process.env.HISTORIC_MAPS_API_KEY,
       weatherApiKey: process.env.WEATHER_API_KEY,
@@ -78,10 +92,17 @@ class ConfigService {
       cacheTTL: parseInt(process.env.CACHE_TTL || '3600', 10),
 
       // Server Configuration
+      transport: this.resolveTransport(),
       port: parseInt(process.env.PORT || '3000', 10),
       logLevel: process.env.LOG_LEVEL || 'info',
       maxConcurrentRequests: parseInt(process.env.MAX_CONCURRENT_REQUESTS || '10', 10),
 
+      // Routing Configuration
+      routingProvider: this.resolveRoutingProvider(),
+      routingBaseUrl: process.env.ROUTING_BASE_URL || undefined,
+      routingLanguage: (process.env.ROUTING_LANGUAGE || 'en').toLowerCase(),
+      offlineMapPath: process.env.OFFLINE_MAP_PATH || undefined,
+
       // Timeout Configuration
       timeouts: {
         routingApi: parseInt(process.env.TIMEOUT_ROUTING_API || '60000', 10),
@@ -102,12 +123,74 @@ class ConfigService {
     };
   }
 
+  /**
+   * Resolve transport mode from the --transport CLI flag, falling back to MCP_TRANSPORT
+   */
+  private resolveTransport(): TransportMode {
+    const args = process.argv.slice(2);
+    let value: string | undefined;
+
+    args.forEach((arg, i) => {
+      if (arg === '--http') {
+        value = 'http';
+      } else if (arg.startsWith('--transport=')) {
+        value = arg.slice('--transport='.length);
+      } else if (arg === '--transport') {
+        value = args[i + 1];
+      }
+    });
+
+    value = (value || process.env.MCP_TRANSPORT || 'stdio').toLowerCase();
+    if (value !== 'stdio' && value !== 'http') {
+      console.warn(`[CONFIG WARNING] Unknown transport "${value}", falling back to stdio.`);
+      return 'stdio';
+    }
+    return value;
+  }
+
+  /**
+   * Resolve the routing provider from ROUTING_PROVIDER, falling back to whichever API key is set
+   */
+  private resolveRoutingProvider(): RoutingProviderName | undefined {
+    const value = process.env.ROUTING_PROVIDER?.toLowerCase();
+    if (value) {
+      if ((ROUTING_PROVIDERS as readonly string[]).includes(value)) {
+        return value as RoutingProviderName;
+      }
+      console.warn(`[CONFIG WARNING] Unknown routing provider "${value}", expected one of ${ROUTING_PROVIDERS.join(', ')}.`);
+    }
+
+    if (process.env.OPENROUTE_API_KEY) {
+      return 'openrouteservice';
+    }
+    if (process.env.MAPBOX_API_KEY) {
+      return 'mapbox';
+    }
+    if (process.env.GRAPHHOPPER_API_KEY) {
+      return 'graphhopper';
+    }
+    return undefined;
+  }
+
   private validateConfiguration(): void {
     const warnings: string[] = [];
     
+    // Hosted APIs need a key; OSRM, Valhalla and self-hosted engines don't
+    const provider = this.config.routingProvider;
+    const keyRequired = provider === 'mapbox'
+      || ((provider === 'openrouteservice' || provider === 'graphhopper') && !this.config.routingBaseUrl);
+    if (provider && keyRequired && !this.getRoutingApiKey()) {
+      warnings.push(`Routing provider "${provider}" needs an API key. Falling back to straight-line routes.`);
+      this.config.routingProvider = undefined;
+    }
+
+    if (this.config.enableOfflineMode && !this.config.offlineMapPath) {
+      warnings.push('Offline mode enabled but OFFLINE_MAP_PATH not set. Offline routing is unavailable.');
+    }
+
     // Check for routing service availability
-    if (!this.config.openRouteApiKey && !this.config.mapboxApiKey) {
-      warnings.push('No routing API key configured (OpenRoute or Mapbox). Routing features will be limited.');
+    if (!this.hasRoutingService()) {
+      warnings.push('No routing provider configured. Routing features will be limited.');
     }
     
     // Check cache configuration
@@ -130,11 +213,30 @@ class ConfigService {
   }
 
   public hasRoutingService(): boolean {
-    return !!(this.config.openRouteApiKey || this.config.mapboxApiKey);
+    return !!this.config.routingProvider || this.hasOfflineRouting();
   }
 
+  /**
+   * Whether routes come from the built-in router over a local OSM extract
+   */
+  public hasOfflineRouting(): boolean {
+    return this.config.enableOfflineMode && !!this.config.offlineMapPath;
+  }
+
+  /**
+   * API key for the configured routing provider
+   */
   public getRoutingApiKey(): string | undefined {
-    return this.config.openRouteApiKey || this.config.mapboxApiKey;
+    switch (this.config.routingProvider) {
+      case 'openrouteservice':
+        return this.config.openRouteApiKey;
+      case 'mapbox':
+        return this.config.mapboxApiKey;
+      case 'graphhopper':
+        return this.config.graphhopperApiKey;
+      default:
+        return undefined;
+    }
   }
 
   public isFeatureEnabled(feature: 'crowdsourcing' | 'mlPredictions' | 'offlineMode' | 'cache' | 'telemetry'): boolean {
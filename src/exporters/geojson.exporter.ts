@@ -41,6 +41,7 @@ export function exportRouteAsGeoJSON(
               category: pin.data.category,
               radius: pin.radius,
               source: pin.metadata.source,
+              ...pin.alongRoute,
               index,
             }
           : { id: pin.id, name: pin.data.name }
@@ -150,6 +151,7 @@ export function exportCombinedGeoJSON(
             layer: 'pois',
             markerSymbol: getMarkerSymbol(pin.type),
             markerColor: getMarkerColor(pin.type),
+            ...pin.alongRoute,
             index,
           }
         : {
@@ -1,11 +1,14 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import logger from '../services/logger.service.js';
 import { AxiosError } from 'axios';
+import { ToolContext } from '../types/tool.types.js';
+import { isAbortError } from '../utils/helpers.js';
 
 export interface ErrorContext {
   toolName: string;
   correlationId?: string;
   originalError: Error;
+  signal?: AbortSignal;
 }
 
 /**
@@ -17,6 +20,14 @@ export function mapErrorToMcpError(error: Error, context: ErrorContext): McpErro
     return error;
   }
 
+  // Client cancellation (checked first: axios cancellations are AxiosErrors too)
+  if (isAbortError(error, context.signal)) {
+    return new McpError(
+      ErrorCode.InternalError,
+      `Request cancelled in ${context.toolName}`
+    );
+  }
+
   // Axios HTTP errors
   if (error instanceof AxiosError) {
     return handleAxiosError(error, context);
@@ -118,6 +129,7 @@ export function withErrorHandler<T extends (...args: any[]) => Promise<any>>(
       const context: ErrorContext = {
         toolName,
         originalError: error as Error,
+        signal: (args[1] as Partial<ToolContext> | undefined)?.signal,
       };
 
       const mcpError = mapErrorToMcpError(error as Error, context);
@@ -11,25 +11,31 @@ export { withErrorHandler, mapErrorToMcpError } from './error-handler.middleware
 export { withRateLimiting, rateLimiter } from './rate-limiter.middleware.js';
 export { withMetrics, metricsService } from './metrics.middleware.js';
 
+import { z } from 'zod';
 import { withValidation } from './validation.middleware.js';
 import { withLogging } from './logging.middleware.js';
 import { withErrorHandler } from './error-handler.middleware.js';
 import { withRateLimiting } from './rate-limiter.middleware.js';
 import { withMetrics } from './metrics.middleware.js';
 
+export interface MiddlewareOptions {
+  schema?: z.ZodTypeAny; // Input schema used by the validation middleware
+}
+
 /**
  * Compose multiple middleware functions
  */
 export function composeMiddleware<T extends (...args: any[]) => Promise<any>>(
   toolName: string,
-  handler: T
+  handler: T,
+  options: MiddlewareOptions = {}
 ): T {
   // Apply middleware in order: metrics -> rate limiting -> validation -> logging -> error handling
   let wrapped = handler;
 
   wrapped = withErrorHandler(toolName, wrapped);
   wrapped = withLogging(toolName, wrapped);
-  wrapped = withValidation(toolName, wrapped);
+  wrapped = withValidation(toolName, wrapped, options.schema);
   wrapped = withRateLimiting(toolName, wrapped);
   wrapped = withMetrics(toolName, wrapped);
 
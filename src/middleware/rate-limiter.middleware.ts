@@ -2,6 +2,8 @@ import PQueue from 'p-queue';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import logger from '../services/logger.service.js';
 import config from '../config/config.service.js';
+import { ToolContext } from '../types/tool.types.js';
+import { isAbortError } from '../utils/helpers.js';
 
 interface RateLimiterConfig {
   concurrency: number;
@@ -61,6 +63,48 @@ class RateLimiterService {
         interval: 60000, // 10 requests per minute
         timeout: 60000, // 60 second timeout
       },
+      get_alternative_routes: {
+        concurrency: Math.min(maxConcurrent, 2),
+        intervalCap: 5,
+        interval: 60000, // 5 requests per minute, each one routes several candidates
+        timeout: 120000,
+      },
+      optimize_trip: {
+        concurrency: Math.min(maxConcurrent, 2),
+        intervalCap: 5,
+        interval: 60000, // 5 requests per minute, each one a matrix plus an enriched route
+        timeout: 120000,
+      },
+      plan_tour: {
+        concurrency: Math.min(maxConcurrent, 2),
+        intervalCap: 5,
+        interval: 60000, // 5 requests per minute, each one a POI search, a matrix and an enriched route
+        timeout: 120000,
+      },
+      schedule_itinerary: {
+        concurrency: Math.min(maxConcurrent, 2),
+        intervalCap: 10,
+        interval: 60000, // 10 requests per minute
+        timeout: 60000,
+      },
+      upcoming_along_route: {
+        concurrency: Math.min(maxConcurrent, 10),
+        intervalCap: 120,
+        interval: 60000, // 120 requests per minute, polled while navigating
+        timeout: 10000,
+      },
+      get_route_matrix: {
+        concurrency: Math.min(maxConcurrent, 2),
+        intervalCap: 10,
+        interval: 60000, // 10 requests per minute
+        timeout: 60000,
+      },
+      get_isochrones: {
+        concurrency: Math.min(maxConcurrent, 2),
+        intervalCap: 10,
+        interval: 60000, // 10 requests per minute
+        timeout: 60000,
+      },
       get_nearby_context: {
         concurrency: Math.min(maxConcurrent, 5),
         intervalCap: 20,
@@ -73,12 +117,30 @@ class RateLimiterService {
         interval: 60000,
         timeout: 30000,
       },
+      geocode_place: {
+        concurrency: 1, // Nominatim usage policy allows one request at a time
+        intervalCap: 60,
+        interval: 60000, // 60 requests per minute
+        timeout: 30000,
+      },
       create_geopin: {
         concurrency: Math.min(maxConcurrent, 10),
         intervalCap: 50,
         interval: 60000,
         timeout: 10000,
       },
+      update_geopin: {
+        concurrency: Math.min(maxConcurrent, 10),
+        intervalCap: 50,
+        interval: 60000,
+        timeout: 10000,
+      },
+      delete_geopin: {
+        concurrency: Math.min(maxConcurrent, 10),
+        intervalCap: 50,
+        interval: 60000,
+        timeout: 10000,
+      },
     };
 
     return configs[toolName] || {
@@ -120,13 +182,18 @@ class RateLimiterService {
   }
 
   /**
-   * Execute function with rate limiting
+   * Execute function with rate limiting.
+   * An aborted signal drops the task from the queue, or rejects it if already running.
    */
   public async execute<T>(
     toolName: string,
     fn: () => Promise<T>,
-    userId?: string
+    userId?: string,
+    signal?: AbortSignal
   ): Promise<T> {
+    if (signal?.aborted) {
+      throw this.cancelledError(toolName);
+    }
     this.checkRateLimit(toolName, userId);
 
     const queue = this.getQueue(toolName);
@@ -137,7 +204,7 @@ class RateLimiterService {
     }
 
     try {
-      const result = await queue.add(fn);
+      const result = await queue.add(fn, { signal });
       if (result === undefined) {
         throw new Error('Queue returned undefined result');
       }
@@ -149,10 +216,17 @@ class RateLimiterService {
           `Request timeout: ${toolName} took too long to process`
         );
       }
+      if (isAbortError(error, signal)) {
+        throw this.cancelledError(toolName);
+      }
       throw error;
     }
   }
 
+  private cancelledError(toolName: string): McpError {
+    return new McpError(ErrorCode.InternalError, `Request cancelled in ${toolName}`);
+  }
+
   /**
    * Get queue statistics
    */
@@ -180,9 +254,12 @@ export function withRateLimiting<T extends (...args: any[]) => Promise<any>>(
   handler: T
 ): T {
   return (async (...args: any[]) => {
+    const context = args[1] as Partial<ToolContext> | undefined;
     return rateLimiter.execute(
       toolName,
-      () => handler(...args)
+      () => handler(...args),
+      undefined,
+      context?.signal
     );
   }) as T;
 }
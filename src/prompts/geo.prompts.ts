@@ -0,0 +1,183 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { Location } from '../types/index.js';
+import { PromptDefinition, PromptMessage } from '../types/prompt.types.js';
+import { isValidCoordinate } from '../utils/helpers.js';
+import { TRAVEL_PROFILES } from '../tools/tool.schemas.js';
+
+/**
+ * Parse a "lat,lng" prompt argument
+ */
+function parseLocation(name: string, value: string): Location {
+  const [lat, lng] = value.split(',').map(part => parseFloat(part.trim()));
+  const location = { lat, lng };
+
+  if (Number.isNaN(lat) || Number.isNaN(lng) || !isValidCoordinate(location)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid ${name}: expected "lat,lng" but got "${value}"`
+    );
+  }
+
+  return location;
+}
+
+// Bounds of the enrich_location radius the neighbourhood prompt passes on
+const MIN_NEIGHBOURHOOD_RADIUS = 10;
+const MAX_NEIGHBOURHOOD_RADIUS = 5000;
+// Bounds of the plan_tour time budget, also applied to tours between two points
+const MIN_TOUR_MINUTES = 15;
+const MAX_TOUR_MINUTES = 720;
+const DEFAULT_TOUR_MINUTES = 120;
+
+/**
+ * Parse a whole-number prompt argument within bounds
+ */
+function parseWholeNumber(name: string, value: string, min: number, max: number): number {
+  const parsed = Number(value.trim());
+
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid ${name}: expected a whole number between ${min} and ${max} but got "${value}"`
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Split a comma-separated prompt argument into trimmed values
+ */
+function parseList(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+function userMessage(lines: string[]): PromptMessage[] {
+  return [
+    {
+      role: 'user',
+      content: {
+        type: 'text',
+        text: lines.join('\n'),
+      },
+    },
+  ];
+}
+
+export const planWalkingTourPrompt: PromptDefinition = {
+  name: 'plan_walking_tour',
+  description: 'Plan a walking tour between two points, or a loop back to the start, with stops matching the given interests',
+  arguments: [
+    { name: 'start', description: 'Starting point as "lat,lng"', required: true },
+    { name: 'end', description: 'End point as "lat,lng" (omit for a loop back to the start)' },
+    { name: 'interests', description: 'Comma-separated interests, e.g. "history,architecture"', required: true },
+    { name: 'duration', description: `Approximate time available in minutes (${MIN_TOUR_MINUTES}-${MAX_TOUR_MINUTES}, loops default to ${DEFAULT_TOUR_MINUTES})` },
+  ],
+  render: (args) => {
+    const start = parseLocation('start', args.start);
+    const end = args.end ? parseLocation('end', args.end) : undefined;
+    const interests = parseList(args.interests);
+    const duration = args.duration
+      ? parseWholeNumber('duration', args.duration, MIN_TOUR_MINUTES, MAX_TOUR_MINUTES)
+      : undefined;
+
+    // A route back to its own start has no length to find stops along, so loops are planned as tours
+    if (!end) {
+      const timeBudget = duration ?? DEFAULT_TOUR_MINUTES;
+      return userMessage([
+        `Plan a walking tour starting and ending at ${start.lat},${start.lng}.`,
+        `Interests: ${interests.join(', ')}.`,
+        `The tour should take about ${timeBudget} minutes including stops.`,
+        '',
+        'Follow these steps:',
+        `1. Call \`plan_tour\` with ${JSON.stringify({ start, profile: 'walking', interests, timeBudget })}.`,
+        '2. For each stop in the itinerary, call `get_nearby_context` with its location and a radius of 150 to find anything worth a short detour.',
+        '3. Call `enrich_location` for the two or three most important stops to get their address and opening hours.',
+        '4. Present the tour as an ordered list of stops with arrival times and a one-paragraph description each, the walking time between stops and the total duration.',
+      ]);
+    }
+
+    return userMessage([
+      `Plan a walking tour starting at ${start.lat},${start.lng} and ending at ${end.lat},${end.lng}.`,
+      `Interests: ${interests.join(', ')}.`,
+      ...(duration ? [`The tour should take about ${duration} minutes including stops.`] : []),
+      '',
+      'Follow these steps:',
+      `1. Call \`generate_route\` with ${JSON.stringify({ start, end, profile: 'walking', interests, bufferRadius: 300 })}.`,
+      '2. Pick the 5-8 most relevant pins from the route, spread along its length.',
+      '3. For each chosen stop, call `get_nearby_context` with its location and a radius of 150 to find anything worth a short detour.',
+      '4. Call `enrich_location` for the two or three most important stops to get their address and opening hours.',
+      '5. Present the tour as an ordered list of stops with a one-paragraph description each, the walking distance between stops and the total duration.',
+    ]);
+  },
+};
+
+export const describeNeighbourhoodPrompt: PromptDefinition = {
+  name: 'describe_neighbourhood',
+  description: 'Describe the character of the neighbourhood around a location',
+  arguments: [
+    { name: 'location', description: 'Location as "lat,lng"', required: true },
+    { name: 'radius', description: 'Radius in meters to consider (default 500)' },
+    { name: 'focus', description: 'Optional comma-separated focus areas, e.g. "food,nature"' },
+  ],
+  render: (args) => {
+    const location = parseLocation('location', args.location);
+    const radius = args.radius ? parseWholeNumber('radius', args.radius, MIN_NEIGHBOURHOOD_RADIUS, MAX_NEIGHBOURHOOD_RADIUS) : 500;
+    const focus = parseList(args.focus);
+
+    return userMessage([
+      `Describe the neighbourhood around ${location.lat},${location.lng} (within ${radius} meters).`,
+      ...(focus.length > 0 ? [`Pay particular attention to: ${focus.join(', ')}.`] : []),
+      '',
+      'Follow these steps:',
+      `1. Call \`enrich_location\` with ${JSON.stringify({ location, radius })} to get the address and nearby points of interest.`,
+      `2. Call \`get_nearby_context\` with ${JSON.stringify({ location, radius, types: ['historical', 'landmark', 'cultural', 'natural'] })} for notable places.`,
+      '3. Summarise the area: what it is known for, its character (residential, commercial, historic...), key landmarks, places to eat, green spaces and accessibility notes.',
+      '4. Mention the three places a first-time visitor should not miss.',
+    ]);
+  },
+};
+
+export const compareRoutesPrompt: PromptDefinition = {
+  name: 'compare_routes',
+  description: 'Compare routes between two points across travel profiles',
+  arguments: [
+    { name: 'start', description: 'Starting point as "lat,lng"', required: true },
+    { name: 'end', description: 'End point as "lat,lng"', required: true },
+    { name: 'profiles', description: 'Comma-separated profiles to compare (default "walking,cycling,driving")' },
+    { name: 'interests', description: 'Optional comma-separated interests for POIs along the way' },
+  ],
+  render: (args) => {
+    const start = parseLocation('start', args.start);
+    const end = parseLocation('end', args.end);
+    const profiles = parseList(args.profiles || 'walking,cycling,driving');
+    const interests = parseList(args.interests);
+
+    const unknown = profiles.filter(profile => !(TRAVEL_PROFILES as readonly string[]).includes(profile));
+    if (unknown.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown profiles: ${unknown.join(', ')} (expected ${TRAVEL_PROFILES.join(', ')})`
+      );
+    }
+
+    return userMessage([
+      `Compare routes from ${start.lat},${start.lng} to ${end.lat},${end.lng} for these profiles: ${profiles.join(', ')}.`,
+      '',
+      'Follow these steps:',
+      ...profiles.map((profile, i) =>
+        `${i + 1}. Call \`generate_route\` with ${JSON.stringify({
+          start,
+          end,
+          profile,
+          ...(interests.length > 0 ? { interests } : {}),
+        })}.`
+      ),
+      `${profiles.length + 1}. Build a comparison table with distance, duration and number of points of interest for each route.`,
+      `${profiles.length + 2}. Highlight notable pins that appear on only one of the routes and recommend a route, explaining the trade-offs.`,
+    ]);
+  },
+};
@@ -0,0 +1,11 @@
+// Prompt registry - every prompt template exposed by the server is registered here
+import { PromptRegistry } from './prompt.registry.js';
+import { planWalkingTourPrompt, describeNeighbourhoodPrompt, compareRoutesPrompt } from './geo.prompts.js';
+
+export { PromptRegistry } from './prompt.registry.js';
+
+export const promptRegistry = new PromptRegistry().register(
+  planWalkingTourPrompt,
+  describeNeighbourhoodPrompt,
+  compareRoutesPrompt
+);
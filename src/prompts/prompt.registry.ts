@@ -0,0 +1,59 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { PromptDefinition, PromptArgument } from '../types/prompt.types.js';
+
+/**
+ * Registry of prompt templates. ListPrompts and GetPrompt are both generated from it.
+ */
+export class PromptRegistry {
+  private prompts: Map<string, PromptDefinition> = new Map();
+
+  /**
+   * Register prompt definitions
+   */
+  public register(...definitions: PromptDefinition[]): this {
+    definitions.forEach(definition => {
+      if (this.prompts.has(definition.name)) {
+        throw new Error(`Prompt already registered: ${definition.name}`);
+      }
+      this.prompts.set(definition.name, definition);
+    });
+    return this;
+  }
+
+  /**
+   * List prompts in ListPrompts format
+   */
+  public list(): Array<{ name: string; description: string; arguments: PromptArgument[] }> {
+    return Array.from(this.prompts.values()).map(prompt => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    }));
+  }
+
+  /**
+   * Expand a prompt template with the given arguments
+   */
+  public get(name: string, args: Record<string, string> = {}) {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments
+      .filter(arg => arg.required && !args[arg.name]?.trim())
+      .map(arg => arg.name);
+
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required arguments for ${name}: ${missing.join(', ')}`
+      );
+    }
+
+    return {
+      description: prompt.description,
+      messages: prompt.render(args),
+    };
+  }
+}
@@ -0,0 +1,25 @@
+// Resource registry - every resource and resource template exposed by the server is registered here
+import { ResourceRegistry } from './resource.registry.js';
+import {
+  pinsResource,
+  pinsPageTemplate,
+  pinByIdTemplate,
+  pinsInBoundingBoxTemplate,
+  pinsNearTemplate,
+} from './pin.resources.js';
+import { routesResource, routeByIdTemplate } from './route.resources.js';
+import { statsResource } from './system.resources.js';
+
+export { ResourceRegistry } from './resource.registry.js';
+export { ResourceSubscriptions } from './resource.subscriptions.js';
+
+export const resourceRegistry = new ResourceRegistry()
+  .register(pinsResource, routesResource, statsResource)
+  // More specific pin templates first so {id} never shadows them
+  .registerTemplate(
+    pinsPageTemplate,
+    pinsInBoundingBoxTemplate,
+    pinsNearTemplate,
+    pinByIdTemplate,
+    routeByIdTemplate
+  );
@@ -0,0 +1,162 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import spatialIndex from '../services/spatial/spatial-index.service.js';
+import { GeoPin, Location, PinChangeEvent } from '../types/index.js';
+import { ResourceDefinition, ResourceTemplateDefinition } from '../types/resource.types.js';
+import { calculateDistance, splitBoundingBox } from '../utils/helpers.js';
+import { createQueryKey, paginateByDistance } from '../utils/pagination.js';
+
+const METERS_PER_DEGREE = 111320;
+const PINS_PAGE_SIZE = 100;
+
+/**
+ * Parse a numeric URI template parameter
+ */
+function parseNumberParam(name: string, value: string, min: number, max: number): number {
+  const parsed = Number(decodeURIComponent(value));
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid ${name}: expected a number between ${min} and ${max} but got "${value}"`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Parse west,south,east,north template parameters
+ */
+function parseBoundingBox(params: Record<string, string>): [number, number, number, number] {
+  const west = parseNumberParam('west', params.west, -180, 180);
+  const south = parseNumberParam('south', params.south, -90, 90);
+  const east = parseNumberParam('east', params.east, -180, 180);
+  const north = parseNumberParam('north', params.north, -90, 90);
+
+  if (south > north) {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid bounding box: south must not exceed north');
+  }
+
+  return [west, south, east, north];
+}
+
+/**
+ * Parse lat,lng,radius template parameters
+ */
+function parseNear(params: Record<string, string>): { location: Location; radius: number } {
+  return {
+    location: {
+      lat: parseNumberParam('lat', params.lat, -90, 90),
+      lng: parseNumberParam('lng', params.lng, -180, 180),
+    },
+    radius: parseNumberParam('radius', params.radius, 1, 50000),
+  };
+}
+
+/**
+ * Approximate check that a pin's radius overlaps a bounding box, mirroring the R-tree entries
+ */
+function pinIntersectsBoundingBox(pin: GeoPin, [west, south, east, north]: number[]): boolean {
+  const dLat = pin.radius / METERS_PER_DEGREE;
+  const dLng = pin.radius / (METERS_PER_DEGREE * Math.max(Math.cos(pin.location.lat * Math.PI / 180), 1e-6));
+
+  return (
+    pin.location.lng + dLng >= west &&
+    pin.location.lng - dLng <= east &&
+    pin.location.lat + dLat >= south &&
+    pin.location.lat - dLat <= north
+  );
+}
+
+/**
+ * A change touches a scope if the pin is inside it now or was before an update
+ */
+function touches(event: PinChangeEvent, inScope: (pin: GeoPin) => boolean): boolean {
+  return inScope(event.pin) || (!!event.previous && inScope(event.previous));
+}
+
+/**
+ * Read one page of all pins, ordered by ID
+ */
+function readPinsPage(cursor?: string) {
+  const pins = spatialIndex.getAllPins();
+  const page = paginateByDistance(pins, null, {
+    cursor,
+    limit: PINS_PAGE_SIZE,
+    queryKey: createQueryKey('pins'),
+  });
+
+  return {
+    totalPins: page.total,
+    pins: page.items,
+    nextCursor: page.nextCursor,
+  };
+}
+
+export const pinsResource: ResourceDefinition = {
+  uri: 'geocontext://pins',
+  name: 'Geo Pins',
+  description: `All available geo-pins in the system, ${PINS_PAGE_SIZE} per page. Read geocontext://pins?cursor={nextCursor} for the next page`,
+  read: () => readPinsPage(),
+  affectedBy: () => true,
+};
+
+export const pinsPageTemplate: ResourceTemplateDefinition = {
+  uriTemplate: 'geocontext://pins{?cursor}',
+  name: 'Geo Pins Page',
+  description: 'A further page of all geo-pins, continuing from the nextCursor of the previous page',
+  read: ({ cursor }) => readPinsPage(cursor ? decodeURIComponent(cursor) : undefined),
+};
+
+export const pinByIdTemplate: ResourceTemplateDefinition = {
+  uriTemplate: 'geocontext://pins/{id}',
+  name: 'Geo Pin',
+  description: 'A single geo-pin by ID',
+  read: ({ id }) => {
+    const pinId = decodeURIComponent(id);
+    const pin = spatialIndex.getPinById(pinId);
+    if (!pin) {
+      throw new McpError(ErrorCode.InvalidParams, `Pin not found: ${pinId}`);
+    }
+    return pin;
+  },
+  affectedBy: ({ id }, event) => event.pin.id === decodeURIComponent(id),
+};
+
+export const pinsInBoundingBoxTemplate: ResourceTemplateDefinition = {
+  uriTemplate: 'geocontext://pins/bbox/{west},{south},{east},{north}',
+  name: 'Geo Pins in Bounding Box',
+  description: 'Geo-pins intersecting a bounding box given as west,south,east,north in degrees; west may exceed east for boxes crossing the antimeridian',
+  read: (params) => {
+    const bbox = parseBoundingBox(params);
+    const found = splitBoundingBox(bbox).flatMap(half => spatialIndex.queryByBoundingBox(...half));
+    const pins = Array.from(new Map(found.map(pin => [pin.id, pin])).values());
+    return {
+      bbox,
+      totalPins: pins.length,
+      pins,
+    };
+  },
+  affectedBy: (params, event) => {
+    const halves = splitBoundingBox(parseBoundingBox(params));
+    return touches(event, pin => halves.some(half => pinIntersectsBoundingBox(pin, half)));
+  },
+};
+
+export const pinsNearTemplate: ResourceTemplateDefinition = {
+  uriTemplate: 'geocontext://pins/near/{lat},{lng}/{radius}',
+  name: 'Geo Pins Near Location',
+  description: 'Geo-pins within a radius (meters) of a location, nearest first',
+  read: (params) => {
+    const { location, radius } = parseNear(params);
+    const pins = spatialIndex.queryByRadius(location, radius);
+    return {
+      location,
+      radius,
+      totalPins: pins.length,
+      pins,
+    };
+  },
+  affectedBy: (params, event) => {
+    const { location, radius } = parseNear(params);
+    return touches(event, pin => calculateDistance(location, pin.location) <= radius);
+  },
+};
@@ -0,0 +1,144 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { ResourceDefinition, ResourceTemplateDefinition } from '../types/resource.types.js';
+import { PinChangeEvent } from '../types/index.js';
+
+const DEFAULT_MIME_TYPE = 'application/json';
+
+interface CompiledTemplate {
+  definition: ResourceTemplateDefinition;
+  template: UriTemplate;
+}
+
+/**
+ * Registry of fixed resources and resource templates.
+ * ListResources, ListResourceTemplates and ReadResource are all generated from it.
+ */
+export class ResourceRegistry {
+  private resources: Map<string, ResourceDefinition> = new Map();
+  private templates: CompiledTemplate[] = [];
+
+  /**
+   * Register fixed-URI resources
+   */
+  public register(...definitions: ResourceDefinition[]): this {
+    definitions.forEach(definition => {
+      if (this.resources.has(definition.uri)) {
+        throw new Error(`Resource already registered: ${definition.uri}`);
+      }
+      this.resources.set(definition.uri, definition);
+    });
+    return this;
+  }
+
+  /**
+   * Register resource templates. Templates are matched in registration order.
+   */
+  public registerTemplate(...definitions: ResourceTemplateDefinition[]): this {
+    definitions.forEach(definition => {
+      this.templates.push({
+        definition,
+        template: new UriTemplate(definition.uriTemplate),
+      });
+    });
+    return this;
+  }
+
+  /**
+   * List fixed resources in ListResources format
+   */
+  public list() {
+    return Array.from(this.resources.values()).map(resource => ({
+      uri: resource.uri,
+      name: resource.name,
+      description: resource.description,
+      mimeType: resource.mimeType || DEFAULT_MIME_TYPE,
+    }));
+  }
+
+  /**
+   * List resource templates in ListResourceTemplates format
+   */
+  public listTemplates() {
+    return this.templates.map(({ definition }) => ({
+      uriTemplate: definition.uriTemplate,
+      name: definition.name,
+      description: definition.description,
+      mimeType: definition.mimeType || DEFAULT_MIME_TYPE,
+    }));
+  }
+
+  /**
+   * Read a resource by URI, resolving fixed resources before templates
+   */
+  public async read(uri: string) {
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return this.toContents(uri, resource.mimeType, await resource.read(uri));
+    }
+
+    const matched = this.matchTemplate(uri);
+    if (matched) {
+      return this.toContents(uri, matched.definition.mimeType, await matched.definition.read(matched.params, uri));
+    }
+
+    throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
+  }
+
+  /**
+   * Check whether a URI supports subscriptions
+   */
+  public isSubscribable(uri: string): boolean {
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return !!resource.affectedBy;
+    }
+    return !!this.matchTemplate(uri)?.definition.affectedBy;
+  }
+
+  /**
+   * Check whether a pin change falls inside the scope of a resource URI
+   */
+  public isAffected(uri: string, event: PinChangeEvent): boolean {
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return resource.affectedBy?.(event) ?? false;
+    }
+
+    const matched = this.matchTemplate(uri);
+    if (!matched?.definition.affectedBy) {
+      return false;
+    }
+
+    try {
+      return matched.definition.affectedBy(matched.params, event);
+    } catch {
+      return false; // Malformed template parameters never match
+    }
+  }
+
+  private matchTemplate(uri: string): { definition: ResourceTemplateDefinition; params: Record<string, string> } | null {
+    for (const { definition, template } of this.templates) {
+      const match = template.match(uri);
+      if (match) {
+        const params = Object.fromEntries(
+          Object.entries(match).map(([key, value]) => [key, Array.isArray(value) ? value.join(',') : value])
+        );
+        return { definition, params };
+      }
+    }
+    return null;
+  }
+
+  private toContents(uri: string, mimeType: string | undefined, data: unknown) {
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: mimeType || DEFAULT_MIME_TYPE,
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../services/logger.service.js';
+import spatialIndex from '../services/spatial/spatial-index.service.js';
+import { PinChangeEvent } from '../types/index.js';
+import { ResourceRegistry } from './resource.registry.js';
+
+/**
+ * Tracks the resource subscriptions of one client session and sends
+ * resources/updated notifications when pin changes fall inside a subscribed scope.
+ *
+ * Changes are coalesced per tick, so enriching an area that adds dozens of pins
+ * produces a single notification per affected URI.
+ */
+export class ResourceSubscriptions {
+  private uris: Set<string> = new Set();
+  private pending: Set<string> = new Set();
+  private flushScheduled = false;
+  private detach: (() => void) | null = null;
+
+  constructor(
+    private readonly registry: ResourceRegistry,
+    private readonly notify: (uri: string) => Promise<void>
+  ) {}
+
+  /**
+   * Subscribe to updates for a resource URI
+   */
+  public subscribe(uri: string): void {
+    if (!this.registry.isSubscribable(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource does not support subscriptions: ${uri}`);
+    }
+
+    this.uris.add(uri);
+    if (!this.detach) {
+      this.detach = spatialIndex.onChange(event => this.handleChange(event));
+    }
+    logger.debug(`Subscribed to resource ${uri}`, { subscriptions: this.uris.size });
+  }
+
+  /**
+   * Unsubscribe from a resource URI
+   */
+  public unsubscribe(uri: string): void {
+    this.uris.delete(uri);
+    this.pending.delete(uri);
+    if (this.uris.size === 0) {
+      this.stopListening();
+    }
+  }
+
+  /**
+   * Get subscribed URIs
+   */
+  public list(): string[] {
+    return Array.from(this.uris);
+  }
+
+  /**
+   * Drop all subscriptions, e.g. when the session closes
+   */
+  public dispose(): void {
+    this.uris.clear();
+    this.pending.clear();
+    this.stopListening();
+  }
+
+  private stopListening(): void {
+    if (this.detach) {
+      this.detach();
+      this.detach = null;
+    }
+  }
+
+  private handleChange(event: PinChangeEvent): void {
+    this.uris.forEach(uri => {
+      if (this.registry.isAffected(uri, event)) {
+        this.pending.add(uri);
+      }
+    });
+
+    if (this.pending.size > 0 && !this.flushScheduled) {
+      this.flushScheduled = true;
+      setImmediate(() => this.flush());
+    }
+  }
+
+  private flush(): void {
+    this.flushScheduled = false;
+    const uris = Array.from(this.pending);
+    this.pending.clear();
+
+    uris.forEach(uri => {
+      this.notify(uri).catch(error => {
+        logger.error(`Failed to send resource update for ${uri}`, error);
+      });
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import routeStore from '../services/routing/route-store.service.js';
+import { ResourceDefinition, ResourceTemplateDefinition } from '../types/resource.types.js';
+
+export const routesResource: ResourceDefinition = {
+  uri: 'geocontext://routes',
+  name: 'Routes',
+  description: 'Summaries of recently generated routes',
+  read: () => {
+    const routes = routeStore.list();
+    return {
+      totalRoutes: routes.length,
+      routes: routes.map(({ request, response, createdAt }) => ({
+        routeId: response.routeId,
+        profile: request.profile || 'driving',
+        start: request.start,
+        end: request.end,
+        distance: response.route.distance,
+        duration: response.route.duration,
+        contextualPins: response.contextualPins,
+        createdAt,
+      })),
+    };
+  },
+};
+
+export const routeByIdTemplate: ResourceTemplateDefinition = {
+  uriTemplate: 'geocontext://routes/{routeId}',
+  name: 'Route',
+  description: 'A generated route with its geometry and contextual pins',
+  read: ({ routeId }) => {
+    const id = decodeURIComponent(routeId);
+    const stored = routeStore.get(id);
+    if (!stored) {
+      throw new McpError(ErrorCode.InvalidParams, `Route not found: ${id}`);
+    }
+    return {
+      ...stored.response,
+      request: stored.request,
+      createdAt: stored.createdAt,
+    };
+  },
+};
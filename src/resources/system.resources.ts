@@ -0,0 +1,16 @@
+import cache from '../services/cache/cache.service.js';
+import spatialIndex from '../services/spatial/spatial-index.service.js';
+import routeStore from '../services/routing/route-store.service.js';
+import { ResourceDefinition } from '../types/resource.types.js';
+
+export const statsResource: ResourceDefinition = {
+  uri: 'geocontext://stats',
+  name: 'System Statistics',
+  description: 'Cache, spatial index and route store statistics',
+  read: () => ({
+    cache: cache.getStats(),
+    spatialIndex: spatialIndex.getStats(),
+    routes: routeStore.getStats(),
+  }),
+  affectedBy: () => true,
+};
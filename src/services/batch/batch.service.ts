@@ -4,6 +4,9 @@ import config from '../../config/config.service.js';
 import routingService from '../routing/routing.service.js';
 import osmService from '../enrichment/openstreetmap.service.js';
 import spatialIndex from '../spatial/spatial-index.service.js';
+import { OperationOptions, ProgressCallback } from '../../types/index.js';
+import { isAbortError } from '../../utils/helpers.js';
+import { loadResultSet, paginateByDistance, queryKeys } from '../../utils/pagination.js';
 import {
   BatchRouteRequest,
   BatchRouteResponse,
@@ -16,6 +19,9 @@ import {
   BatchContextResult,
 } from '../../types/batch.types.js';
 
+// POIs returned per enriched location; the rest are reachable through nextCursor
+const BATCH_PAGE_SIZE = 20;
+
 class BatchService {
   private static instance: BatchService;
 
@@ -30,10 +36,35 @@ class BatchService {
     return BatchService.instance;
   }
 
+  /**
+   * Create a result hook that reports completed/failed counts after each batch item
+   */
+  private createProgressTracker(phase: string, total: number, onProgress?: ProgressCallback) {
+    let completed = 0;
+    let failed = 0;
+    onProgress?.({ phase, completed, failed, total });
+
+    return <T extends { success: boolean }>(result: T | void): T | void => {
+      if (result) {
+        if (result.success) {
+          completed++;
+        } else {
+          failed++;
+        }
+        onProgress?.({ phase, completed, failed, total });
+      }
+      return result;
+    };
+  }
+
   /**
    * Process batch route generation requests
    */
-  public async generateRouteBatch(request: BatchRouteRequest): Promise<BatchRouteResponse> {
+  public async generateRouteBatch(
+    request: BatchRouteRequest,
+    options: OperationOptions = {}
+  ): Promise<BatchRouteResponse> {
+    const { signal, onProgress } = options;
     const startTime = Date.now();
     const concurrency = request.options?.maxConcurrency || Math.min(config.get('maxConcurrentRequests') as number, 3);
     const failFast = request.options?.failFast || false;
@@ -45,6 +76,7 @@ class BatchService {
 
     const queue = new PQueue({ concurrency });
     const results: BatchRouteResult[] = [];
+    const track = this.createProgressTracker('routing', request.requests.length, onProgress);
     let shouldStop = false;
 
     const promises = request.requests.map((routeReq, index) =>
@@ -58,13 +90,17 @@ class BatchService {
         }
 
         try {
-          const routeResponse = await routingService.generateRoute(routeReq);
+          const routeResponse = await routingService.generateRoute(routeReq, { signal });
           return {
             index,
             success: true,
             data: routeResponse,
           };
         } catch (error) {
+          // Cancellation aborts the whole batch rather than failing one item
+          if (isAbortError(error, signal)) {
+            throw error;
+          }
           const errorMessage = error instanceof Error ? error.message : String(error);
           logger.error(`Failed to generate route ${index}`, { error: errorMessage });
 
@@ -78,7 +114,7 @@ class BatchService {
             error: errorMessage,
           };
         }
-      })
+      }, { signal }).then(track)
     );
 
     const batchResults = (await Promise.all(promises)).filter(
@@ -109,7 +145,11 @@ class BatchService {
   /**
    * Process batch location enrichment requests
    */
-  public async enrichLocationBatch(request: BatchEnrichRequest): Promise<BatchEnrichResponse> {
+  public async enrichLocationBatch(
+    request: BatchEnrichRequest,
+    options: OperationOptions = {}
+  ): Promise<BatchEnrichResponse> {
+    const { signal, onProgress } = options;
     const startTime = Date.now();
     const concurrency = request.options?.maxConcurrency || Math.min(config.get('maxConcurrentRequests') as number, 5);
     const failFast = request.options?.failFast || false;
@@ -121,6 +161,7 @@ class BatchService {
 
     const queue = new PQueue({ concurrency });
     const results: BatchEnrichResult[] = [];
+    const track = this.createProgressTracker('enrichment', request.locations.length, onProgress);
     let shouldStop = false;
 
     const promises = request.locations.map((req, index) =>
@@ -134,12 +175,13 @@ class BatchService {
         }
 
         try {
-          const pins = await osmService.fetchPOIsNearLocation(
-            req.location,
-            req.radius || 500
+          // Kept as a result set so a nextCursor continues in enrich_location
+          const queryKey = queryKeys.enrich(req.location, req.radius || 500);
+          const pins = await loadResultSet(queryKey, undefined, () =>
+            osmService.fetchPOIsNearLocation(req.location, req.radius || 500, undefined, signal)
           );
 
-          const addressInfo = await osmService.reverseGeocode(req.location);
+          const addressInfo = await osmService.reverseGeocode(req.location, signal);
 
           // Add pins to spatial index
           pins.forEach(pin => {
@@ -148,6 +190,11 @@ class BatchService {
             }
           });
 
+          const page = paginateByDistance(pins, req.location, {
+            limit: BATCH_PAGE_SIZE,
+            queryKey,
+          });
+
           return {
             index,
             success: true,
@@ -155,10 +202,15 @@ class BatchService {
               location: req.location,
               address: addressInfo,
               poisFound: pins.length,
-              pois: pins.slice(0, 20),
+              pois: page.items,
+              nextCursor: page.nextCursor,
             },
           };
         } catch (error) {
+          // Cancellation aborts the whole batch rather than failing one item
+          if (isAbortError(error, signal)) {
+            throw error;
+          }
           const errorMessage = error instanceof Error ? error.message : String(error);
           logger.error(`Failed to enrich location ${index}`, { error: errorMessage });
 
@@ -172,7 +224,7 @@ class BatchService {
             error: errorMessage,
           };
         }
-      })
+      }, { signal }).then(track)
     );
 
     const batchResults = (await Promise.all(promises)).filter(
@@ -203,7 +255,11 @@ class BatchService {
   /**
    * Process batch nearby context requests
    */
-  public async getNearbyContextBatch(request: BatchContextRequest): Promise<BatchContextResponse> {
+  public async getNearbyContextBatch(
+    request: BatchContextRequest,
+    options: OperationOptions = {}
+  ): Promise<BatchContextResponse> {
+    const { signal, onProgress } = options;
     const startTime = Date.now();
     const concurrency = request.options?.maxConcurrency || Math.min(config.get('maxConcurrentRequests') as number, 5);
     const failFast = request.options?.failFast || false;
@@ -215,6 +271,7 @@ class BatchService {
 
     const queue = new PQueue({ concurrency });
     const results: BatchContextResult[] = [];
+    const track = this.createProgressTracker('context', request.queries.length, onProgress);
     let shouldStop = false;
 
     const promises = request.queries.map((query, index) =>
@@ -228,45 +285,59 @@ class BatchService {
         }
 
         try {
-          // Query spatial index first
-          let pins = spatialIndex.queryByRadius(query.location, query.radius || 1000);
+          const radius = query.radius || 1000;
+          const maxResults = query.maxResults || 50;
+          const queryIndex = () => {
+            const pins = spatialIndex.queryByRadius(query.location, radius);
+
+            // Filter by types if specified
+            return query.types && query.types.length > 0
+              ? pins.filter(pin => query.types!.includes(pin.type))
+              : pins;
+          };
 
-          // Filter by types if specified
-          if (query.types && query.types.length > 0) {
-            pins = pins.filter(pin => query.types!.includes(pin.type));
-          }
+          // Query spatial index first
+          let pins = queryIndex();
 
           // If not enough pins, fetch from OSM
-          if (pins.length < (query.maxResults || 50)) {
+          if (pins.length < maxResults) {
             const osmPins = await osmService.fetchPOIsNearLocation(
               query.location,
-              query.radius || 1000,
-              query.types
+              radius,
+              query.types,
+              signal
             );
 
             // Add new pins to spatial index
             osmPins.forEach(pin => {
               if (!spatialIndex.getPinById(pin.id)) {
                 spatialIndex.addPin(pin);
-                pins.push(pin);
               }
             });
+            pins = queryIndex();
           }
 
-          // Limit results
-          pins = pins.slice(0, query.maxResults || 50);
+          const page = paginateByDistance(pins, query.location, {
+            limit: maxResults,
+            queryKey: queryKeys.nearby(query.location, radius, query.types),
+          });
 
           return {
             index,
             success: true,
             data: {
               location: query.location,
-              radius: query.radius || 1000,
-              totalPins: pins.length,
-              pins,
+              radius,
+              totalPins: page.total,
+              pins: page.items,
+              nextCursor: page.nextCursor,
             },
           };
         } catch (error) {
+          // Cancellation aborts the whole batch rather than failing one item
+          if (isAbortError(error, signal)) {
+            throw error;
+          }
           const errorMessage = error instanceof Error ? error.message : String(error);
           logger.error(`Failed to get context for query ${index}`, { error: errorMessage });
 
@@ -280,7 +351,7 @@ class BatchService {
             error: errorMessage,
           };
         }
-      })
+      }, { signal }).then(track)
     );
 
     const batchResults = (await Promise.all(promises)).filter(
@@ -0,0 +1,116 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { Location, RouteRequest } from '../../types/index.js';
+import {
+  AddressInput,
+  LocationInput,
+  LocationResolution,
+  RouteRequestInput,
+} from '../../types/geocoding.types.js';
+import logger from '../logger.service.js';
+import { isAbortError } from '../../utils/helpers.js';
+import osmService from './openstreetmap.service.js';
+
+const CANDIDATE_LIMIT = 5;
+
+/**
+ * Resolves tool location arguments that may be coordinates, a place name or an address.
+ * One resolver serves one tool call: identical queries are geocoded once, sequentially
+ * (Nominatim allows one request at a time), and every resolution is recorded for the response.
+ */
+export class LocationResolver {
+  private resolved: LocationResolution[] = [];
+  private pending: Map<string, Promise<Omit<LocationResolution, 'field'>>> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly signal?: AbortSignal) {}
+
+  /**
+   * Resolve a location argument, recording it under the given field name
+   */
+  public async resolve(field: string, input: LocationInput): Promise<Location> {
+    if (typeof input === 'object' && 'lat' in input && 'lng' in input) {
+      return input;
+    }
+
+    const query = typeof input === 'string' ? input.trim() : this.formatAddress(input);
+    let lookup = this.pending.get(query);
+    if (!lookup) {
+      lookup = this.enqueue(() => this.geocode(field, query));
+      this.pending.set(query, lookup);
+    }
+
+    const resolution = { field, ...await lookup };
+    this.resolved.push(resolution);
+    return resolution.location;
+  }
+
+  /**
+   * Resolve the start, end and waypoints of a route request
+   */
+  public async resolveRoute(request: RouteRequestInput, prefix: string = ''): Promise<RouteRequest> {
+    const start = await this.resolve(`${prefix}start`, request.start);
+    const end = await this.resolve(`${prefix}end`, request.end);
+    const waypoints = request.waypoints
+      ? await Promise.all(request.waypoints.map((wp, i) => this.resolve(`${prefix}waypoints[${i}]`, wp)))
+      : undefined;
+
+    return { ...request, start, end, waypoints };
+  }
+
+  /**
+   * Add resolvedLocations to a tool result when any argument was geocoded
+   */
+  public annotate<T extends object>(result: T): T & { resolvedLocations?: LocationResolution[] } {
+    return this.resolved.length > 0 ? { ...result, resolvedLocations: this.resolved } : result;
+  }
+
+  /**
+   * Resolutions made so far, in the order fields were resolved
+   */
+  public resolutions(): LocationResolution[] {
+    return this.resolved;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async geocode(field: string, query: string): Promise<Omit<LocationResolution, 'field'>> {
+    let candidates;
+    try {
+      candidates = await osmService.geocodePlace(query, CANDIDATE_LIMIT, { signal: this.signal });
+    } catch (error) {
+      if (isAbortError(error, this.signal)) {
+        throw error;
+      }
+      // The place may well exist; the geocoder just couldn't be asked
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Could not resolve ${field}: geocoding failed (${error instanceof Error ? error.message : String(error)})`
+      );
+    }
+
+    const [best, ...alternatives] = candidates;
+    if (!best) {
+      throw new McpError(ErrorCode.InvalidParams, `Could not resolve ${field}: no place found for "${query}"`);
+    }
+
+    logger.debug(`Resolved ${field} "${query}" to ${best.displayName}`, { location: best.location });
+
+    return {
+      query,
+      location: best.location,
+      displayName: best.displayName,
+      confidence: best.confidence,
+      alternatives,
+    };
+  }
+
+  private formatAddress(address: AddressInput): string {
+    return [address.street, address.city, address.county, address.state, address.postcode, address.country]
+      .filter(part => part && part.trim().length > 0)
+      .join(', ');
+  }
+}
@@ -1,9 +1,15 @@
 import axios, { AxiosInstance } from 'axios';
 import { Location, GeoPin, PinType } from '../../types/index.js';
+import {
+  GeocodeCandidate,
+  NominatimPlace,
+  PlaceAddress,
+  PlaceSearchOptions,
+} from '../../types/geocoding.types.js';
 import logger from '../logger.service.js';
 import cache from '../cache/cache.service.js';
 import config from '../../config/config.service.js';
-import { generateId } from '../../utils/helpers.js';
+import { generateId, isAbortError } from '../../utils/helpers.js';
 
 interface OverpassNode {
   type: 'node';
@@ -30,6 +36,20 @@ interface OverpassResponse {
   elements: OverpassElement[];
 }
 
+// OSM tags ("key" or "key=value") searched for each interest
+const INTEREST_TAGS: Record<string, string[]> = {
+  history: ['historic', 'heritage', 'memorial', 'monument'],
+  architecture: ['building=church', 'building=cathedral', 'building=castle', 'architect'],
+  nature: ['natural', 'leisure=park', 'leisure=garden', 'waterway'],
+  food: ['amenity=restaurant', 'amenity=cafe', 'amenity=bar', 'cuisine'],
+  shopping: ['shop', 'amenity=marketplace'],
+  culture: ['amenity=theatre', 'amenity=museum', 'amenity=gallery', 'amenity=library'],
+  transport: ['public_transport', 'railway', 'aeroway', 'highway=bus_stop'],
+  accommodation: ['tourism=hotel', 'tourism=hostel', 'tourism=guest_house'],
+  entertainment: ['leisure', 'sport', 'amenity=cinema', 'amenity=nightclub'],
+  education: ['amenity=school', 'amenity=university', 'amenity=college'],
+};
+
 class OpenStreetMapService {
   private static instance: OpenStreetMapService;
   private overpassClient: AxiosInstance;
@@ -72,7 +92,8 @@ class OpenStreetMapService {
   public async fetchPOIsNearLocation(
     location: Location,
     radiusMeters: number,
-    interests?: string[]
+    interests?: string[],
+    signal?: AbortSignal
   ): Promise<GeoPin[]> {
     const cacheKey = cache.createKey(
       'osm',
@@ -82,93 +103,132 @@ class OpenStreetMapService {
       radiusMeters,
       interests?.join(',') || 'all'
     );
-    return cache.wrap(cacheKey, async () => {
-      try {
-        const query = this.buildOverpassQuery(location, radiusMeters, interests);
-        logger.debug('Executing Overpass query', { location, radius: radiusMeters });
-
-        const response = await this.overpassClient.post<OverpassResponse>(
-          '',
-          `data=${encodeURIComponent(query)}`,
-          {
-            headers: {
-              'Content-Type': 'application/x-www-form-urlencoded',
-            },
-          }
-        );
-
-        const pins = response.data.elements.map(element => 
-          this.convertElementToGeoPin(element)
-        ).filter(pin => pin !== null) as GeoPin[];
-
-        logger.info(`Fetched ${pins.length} POIs from OpenStreetMap`);
-        return pins;
-      } catch (error) {
-        logger.error('Failed to fetch POIs from OpenStreetMap', error);
-        return [];
-      }
+    return cache.wrap(cacheKey, () => {
+      logger.debug('Executing Overpass query', { location, radius: radiusMeters });
+      return this.queryPOIs(`around:${radiusMeters},${location.lat},${location.lng}`, interests, signal);
     });
   }
 
   /**
-   * Build Overpass QL query
+   * Fetch POIs within a distance of a polyline ([lng, lat] coordinates) in one Overpass query.
+   * Overpass measures the distance to the line itself, so keep lines short and simplified.
    */
-  private buildOverpassQuery(
-    location: Location,
+  public async fetchPOIsAlongLine(
+    coordinates: number[][],
     radiusMeters: number,
-    interests?: string[]
-  ): string {
-    const tags = this.getTagsForInterests(interests);
-    const tagFilters = tags.map(tag => {
-      if (tag.includes('=')) {
-        const [key, value] = tag.split('=');
-        return `["${key}"="${value}"]`;
+    interests?: string[],
+    signal?: AbortSignal
+  ): Promise<GeoPin[]> {
+    const points = coordinates.map(([lng, lat]) => `${lat.toFixed(6)},${lng.toFixed(6)}`);
+    const cacheKey = cache.createKey(
+      'osm',
+      'corridor',
+      points.join(','),
+      radiusMeters,
+      interests?.join(',') || 'all'
+    );
+    return cache.wrap(cacheKey, () => {
+      logger.debug('Executing Overpass corridor query', { vertices: points.length, radius: radiusMeters });
+      return this.queryPOIs(`around:${radiusMeters},${points.join(',')}`, interests, signal);
+    });
+  }
+
+  /**
+   * Run an Overpass query for POIs matching the interests inside an area filter
+   */
+  private async queryPOIs(area: string, interests?: string[], signal?: AbortSignal): Promise<GeoPin[]> {
+    try {
+      const query = this.buildOverpassQuery(area, interests);
+
+      const response = await this.overpassClient.post<OverpassResponse>(
+        '',
+        `data=${encodeURIComponent(query)}`,
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          signal,
+        }
+      );
+
+      const pins = response.data.elements.map(element => 
+        this.convertElementToGeoPin(element)
+      ).filter(pin => pin !== null) as GeoPin[];
+
+      logger.info(`Fetched ${pins.length} POIs from OpenStreetMap`);
+      return pins;
+    } catch (error) {
+      // Rethrow cancellations so an empty result is not cached
+      if (isAbortError(error, signal)) {
+        throw error;
       }
-      return `["${tag}"]`;
-    }).join('');
+      logger.error('Failed to fetch POIs from OpenStreetMap', error);
+      return [];
+    }
+  }
+
+  /**
+   * Build Overpass QL query: a union with one statement per tag, so elements carrying any of
+   * the tags match (chained filters in one statement would require all of them)
+   */
+  private buildOverpassQuery(area: string, interests?: string[]): string {
+    const statements = this.getTagsForInterests(interests).flatMap(tag => {
+      const [key, value] = tag.split('=');
+      const filter = value ? `["${key}"="${value}"]` : `["${key}"]`;
+      return [`node${filter}(${area});`, `way${filter}(${area});`];
+    });
     // Build Overpass QL query
     return `
       [out:json][timeout:25];
       (
-        node${tagFilters}(around:${radiusMeters},${location.lat},${location.lng});
-        way${tagFilters}(around:${radiusMeters},${location.lat},${location.lng});
+        ${statements.join('\n        ')}
       );
       out center;
     `;
   }
 
   /**
-   * Map interests to OSM tags
+   * Map interests to OSM tags. Interests with no known tags fall back to the general POI tags,
+   * so they never leave the query without a filter.
    */
   private getTagsForInterests(interests?: string[]): string[] {
-    if (!interests || interests.length === 0) {
-      // Default tags for general POIs
-      return ['amenity', 'tourism', 'historic', 'leisure', 'natural'];
-    }
-
-    const interestTagMap: Record<string, string[]> = {
-      history: ['historic', 'heritage', 'memorial', 'monument'],
-      architecture: ['building=church', 'building=cathedral', 'building=castle', 'architect'],
-      nature: ['natural', 'leisure=park', 'leisure=garden', 'waterway'],
-      food: ['amenity=restaurant', 'amenity=cafe', 'amenity=bar', 'cuisine'],
-      shopping: ['shop', 'amenity=marketplace'],
-      culture: ['amenity=theatre', 'amenity=museum', 'amenity=gallery', 'amenity=library'],
-      transport: ['public_transport', 'railway', 'aeroway', 'highway=bus_stop'],
-      accommodation: ['tourism=hotel', 'tourism=hostel', 'tourism=guest_house'],
-      entertainment: ['leisure', 'sport', 'amenity=cinema', 'amenity=nightclub'],
-      education: ['amenity=school', 'amenity=university', 'amenity=college'],
-    };
-
     const tags = new Set<string>();
-    interests.forEach(interest => {
-      const mappedTags = interestTagMap[interest.toLowerCase()];
+    interests?.forEach(interest => {
+      const mappedTags = INTEREST_TAGS[interest.toLowerCase()];
       if (mappedTags) {
         mappedTags.forEach(tag => tags.add(tag));
       }
     });
 
-    return Array.from(tags);
+    // Default tags for general POIs
+    return tags.size > 0 ? Array.from(tags) : ['amenity', 'tourism', 'historic', 'leisure', 'natural'];
+  }
+
+  /**
+   * Share (0-1) of the interests a pin matches, by the OSM tags searched for each interest or
+   * the interest itself among its categories and tags. 1 when no interests are given.
+   */
+  public matchInterests(pin: GeoPin, interests?: string[]): number {
+    if (!interests || interests.length === 0) {
+      return 1;
+    }
+
+    const keys = new Set(pin.metadata.tags.map(tag => tag.toLowerCase()));
+    const categories = new Set(pin.data.category.map(category => category.toLowerCase()));
+    const hasTag = (tag: string) => {
+      const [key, value] = tag.split('=');
+      return value
+        ? categories.has(value) || categories.has(`${key}:${value}`)
+        : keys.has(key) || categories.has(key);
+    };
+
+    const matched = interests.filter(interest => {
+      const name = interest.toLowerCase();
+      return categories.has(name) || keys.has(name) || (INTEREST_TAGS[name] ?? []).some(hasTag);
+    });
+    return matched.length / interests.length;
   }
+
   /**
    * Convert OSM element to GeoPin
    */
@@ -308,7 +368,7 @@ class OpenStreetMapService {
   /**
    * Reverse geocode a location to get address
    */
-  public async reverseGeocode(location: Location): Promise<any> {
+  public async reverseGeocode(location: Location, signal?: AbortSignal): Promise<any> {
     const cacheKey = cache.createKey('nominatim', 'reverse', location.lat, location.lng);
     
     return cache.wrap(cacheKey, async () => {
@@ -320,10 +380,14 @@ class OpenStreetMapService {
             format: 'json',
             addressdetails: 1,
           },
+          signal,
         });
         
         return response.data;
       } catch (error) {
+        if (isAbortError(error, signal)) {
+          throw error;
+        }
         logger.error('Failed to reverse geocode location', error);
         return null;
       }
@@ -331,29 +395,121 @@ class OpenStreetMapService {
   }
 
   /**
-   * Search for a place by name
+   * Search for a place by name. Nominatim failures are thrown rather than returned as an empty
+   * result, so they are not cached or mistaken for a place that doesn't exist.
    */
-  public async searchPlace(query: string, limit: number = 5): Promise<any[]> {
-    const cacheKey = cache.createKey('nominatim', 'search', query, limit);
+  public async searchPlace(
+    query: string,
+    limit: number = 5,
+    options: PlaceSearchOptions = {}
+  ): Promise<NominatimPlace[]> {
+    const { countryCodes, viewbox, bounded, signal } = options;
+    const cacheKey = cache.createKey(
+      'nominatim',
+      'search',
+      query,
+      limit,
+      countryCodes?.join(',') || 'any',
+      viewbox?.join(',') || 'none',
+      bounded ? 'bounded' : 'unbounded'
+    );
     
     return cache.wrap(cacheKey, async () => {
       try {
-        const response = await this.nominatimClient.get('/search', {
+        const response = await this.nominatimClient.get<NominatimPlace[]>('/search', {
           params: {
             q: query,
             format: 'json',
             limit,
             addressdetails: 1,
+            ...(countryCodes?.length ? { countrycodes: countryCodes.join(',').toLowerCase() } : {}),
+            ...(viewbox ? { viewbox: viewbox.join(','), bounded: bounded ? 1 : 0 } : {}),
           },
+          signal,
         });
         
         return response.data;
       } catch (error) {
+        if (isAbortError(error, signal)) {
+          throw error;
+        }
         logger.error('Failed to search place', error);
-        return [];
+        throw error;
       }
     });
   }
+
+  /**
+   * Geocode a place name into ranked candidates.
+   *
+   * Confidence blends Nominatim importance with how many query words appear in the
+   * candidate's name, so "Springfield, Illinois" favours the Illinois result even when
+   * another Springfield is more important.
+   */
+  public async geocodePlace(
+    query: string,
+    limit: number = 5,
+    options: PlaceSearchOptions = {}
+  ): Promise<GeocodeCandidate[]> {
+    const places = await this.searchPlace(query, limit, options);
+    const queryTokens = this.tokenize(query);
+
+    return places
+      .map(place => {
+        const importance = place.importance ?? 0;
+        const nameTokens = new Set(this.tokenize(place.display_name));
+        const matched = queryTokens.filter(token => nameTokens.has(token)).length;
+        const textScore = queryTokens.length > 0 ? matched / queryTokens.length : 0;
+
+        return {
+          place,
+          importance,
+          confidence: Math.round((0.4 * importance + 0.6 * textScore) * 1000) / 1000,
+        };
+      })
+      .sort((a, b) => b.confidence - a.confidence || b.importance - a.importance)
+      .map(({ place, importance, confidence }, index): GeocodeCandidate => {
+        const box = place.boundingbox?.map(Number);
+        return {
+          rank: index + 1,
+          displayName: place.display_name,
+          location: { lat: Number(place.lat), lng: Number(place.lon) },
+          address: this.toPlaceAddress(place.address),
+          bbox: box && box.every(Number.isFinite) ? [box[2], box[0], box[3], box[1]] : undefined,
+          osmType: place.osm_type,
+          osmId: place.osm_id,
+          category: place.class,
+          type: place.type,
+          importance,
+          confidence,
+        };
+      });
+  }
+
+  /**
+   * Lowercase word tokens for matching queries against names
+   */
+  private tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+  }
+
+  /**
+   * Map Nominatim address details to a structured address
+   */
+  private toPlaceAddress(address: Record<string, string> = {}): PlaceAddress {
+    return {
+      houseNumber: address.house_number,
+      road: address.road || address.pedestrian || address.footway,
+      neighbourhood: address.neighbourhood || address.quarter,
+      suburb: address.suburb || address.borough,
+      city: address.city || address.town || address.village || address.hamlet || address.municipality,
+      county: address.county,
+      state: address.state || address.region,
+      postcode: address.postcode,
+      country: address.country,
+      countryCode: address.country_code?.toUpperCase(),
+    };
+  }
 }
 
 export default OpenStreetMapService.getInstance();
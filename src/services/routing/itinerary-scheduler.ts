@@ -0,0 +1,170 @@
+import { GeoPin, ItineraryStop, SkippedStop } from '../../types/index.js';
+import { earliestVisitStart, parseOpeningHours, WeeklyHours } from '../../utils/opening-hours.js';
+
+export interface SchedulableStop {
+  pin: GeoPin;
+  dwellMinutes: number;
+}
+
+export interface ScheduleOptions {
+  departure: number; // timestamp
+  timeZone: string;
+  maxWaitMinutes: number;
+  end: number | null; // Matrix index to finish at (0 = back at the start), or null to stop at the last visit
+}
+
+export interface StopSchedule {
+  itinerary: ItineraryStop[];
+  skipped: SkippedStop[];
+  warnings: string[];
+  reordered: boolean;
+  end: number; // timestamp
+  travelSeconds: number;
+}
+
+interface Visit {
+  stop: number; // Index into stops
+  travel: number; // seconds
+  arrival: number;
+  visitStart: number;
+  departure: number;
+}
+
+/**
+ * Schedule visits inside the stops' opening hours. The duration matrix covers the start at index
+ * 0 and stop i at index i + 1 (plus any end location). The requested order is kept when every
+ * visit fits; otherwise stops are taken greedily by earliest possible departure, stops left over
+ * are inserted wherever they still fit, and the rest are skipped.
+ */
+export function scheduleStops(
+  durations: Array<Array<number | null>>,
+  stops: SchedulableStop[],
+  options: ScheduleOptions
+): StopSchedule {
+  const warnings: string[] = [];
+  // undefined: no hours given, always open; null: hours that could not be read, assumed open
+  const hours: Array<WeeklyHours | null | undefined> = stops.map(({ pin }) => {
+    if (!pin.data.visitingHours) {
+      return undefined;
+    }
+    const parsed = parseOpeningHours(pin.data.visitingHours);
+    if (!parsed) {
+      warnings.push(`Could not read the opening hours of ${pin.data.name} ("${pin.data.visitingHours}"); assuming it is open`);
+    }
+    return parsed;
+  });
+
+  const visit = (stop: number, from: number, time: number): Visit | null => {
+    const travel = durations[from][stop + 1];
+    if (travel === null) {
+      return null;
+    }
+    const arrival = time + travel * 1000;
+    const stopHours = hours[stop];
+    const visitStart = stopHours
+      ? earliestVisitStart(stopHours, arrival, stops[stop].dwellMinutes, options.maxWaitMinutes, options.timeZone)
+      : arrival;
+    if (visitStart === null) {
+      return null;
+    }
+    return { stop, travel, arrival, visitStart, departure: visitStart + stops[stop].dwellMinutes * 60000 };
+  };
+
+  const simulate = (order: number[]): Visit[] | null => {
+    const visits: Visit[] = [];
+    let from = 0;
+    let time = options.departure;
+    for (const stop of order) {
+      const next = visit(stop, from, time);
+      if (!next) {
+        return null;
+      }
+      visits.push(next);
+      from = stop + 1;
+      time = next.departure;
+    }
+    return visits;
+  };
+
+  const finish = (visits: Visit[]): number => {
+    const last = visits[visits.length - 1];
+    if (!last) {
+      return options.departure + (options.end === null ? 0 : (durations[0][options.end] ?? 0) * 1000);
+    }
+    return last.departure + (options.end === null ? 0 : (durations[last.stop + 1][options.end] ?? 0) * 1000);
+  };
+
+  const requested = stops.map((_, i) => i);
+  let visits = simulate(requested);
+
+  if (!visits) {
+    // Greedy: always go where the next visit can be finished soonest
+    visits = [];
+    const remaining = [...requested];
+    let from = 0;
+    let time = options.departure;
+    while (remaining.length > 0) {
+      let best: Visit | null = null;
+      for (const stop of remaining) {
+        const candidate = visit(stop, from, time);
+        if (candidate && (!best || candidate.departure < best.departure)) {
+          best = candidate;
+        }
+      }
+      if (!best) {
+        break;
+      }
+      visits.push(best);
+      remaining.splice(remaining.indexOf(best.stop), 1);
+      from = best.stop + 1;
+      time = best.departure;
+    }
+
+    // Fit the leftovers in wherever the whole schedule still works, finishing earliest
+    remaining.forEach(stop => {
+      const order = visits!.map(v => v.stop);
+      let bestVisits: Visit[] | null = null;
+      for (let position = 0; position <= order.length; position++) {
+        const candidate = simulate([...order.slice(0, position), stop, ...order.slice(position)]);
+        if (candidate && (!bestVisits || finish(candidate) < finish(bestVisits))) {
+          bestVisits = candidate;
+        }
+      }
+      if (bestVisits) {
+        visits = bestVisits;
+      }
+    });
+  }
+
+  const scheduled = new Set(visits.map(v => v.stop));
+  const skipped: SkippedStop[] = requested
+    .filter(stop => !scheduled.has(stop))
+    .map(stop => {
+      const { pin, dwellMinutes } = stops[stop];
+      const reason = hours[stop]
+        ? `Not open for a ${dwellMinutes} minute visit when it can be reached (${pin.data.visitingHours})`
+        : 'Cannot be reached from the other stops';
+      warnings.push(`Skipped ${pin.data.name}: ${reason}`);
+      return { pin, reason };
+    });
+
+  const order = visits.map(v => v.stop);
+  const end = finish(visits);
+  const lastDeparture = visits.length > 0 ? visits[visits.length - 1].departure : options.departure;
+  return {
+    itinerary: visits.map(v => ({
+      pin: stops[v.stop].pin,
+      arrival: new Date(v.arrival).toISOString(),
+      visitStart: new Date(v.visitStart).toISOString(),
+      departure: new Date(v.departure).toISOString(),
+      travelMinutes: Math.round(v.travel / 60),
+      waitMinutes: Math.round((v.visitStart - v.arrival) / 60000),
+      dwellMinutes: stops[v.stop].dwellMinutes,
+    })),
+    skipped,
+    warnings,
+    reordered: order.some((stop, i) => i > 0 && stop < order[i - 1]),
+    end,
+    travelSeconds: visits.reduce((sum, v) => sum + v.travel, 0) + (end - lastDeparture) / 1000,
+  };
+}
@@ -0,0 +1,300 @@
+import { readFile } from 'fs/promises';
+import * as turf from '@turf/turf';
+import { Location, ManeuverType, RouteManeuver, TravelProfile } from '../../../types/index.js';
+import {
+  IsochroneFeature,
+  NormalizedRoute,
+  OsmExtract,
+  ProviderIsochroneRequest,
+  ProviderMatrixRequest,
+  ProviderRouteRequest,
+  RouteMatrix,
+  RoutingProvider,
+} from '../../../types/routing.types.js';
+import logger from '../../logger.service.js';
+import { calculateBearing } from '../../../utils/helpers.js';
+import { describeManeuver } from '../providers/provider.utils.js';
+import { GraphEdge, RoadGraph } from './road-graph.js';
+import { ROAD_PROFILES } from './road-profiles.js';
+import { parseOsmPbf } from './osm-pbf.parser.js';
+import { parseOsmXml } from './osm-xml.parser.js';
+
+// Locations further than this from any usable road are treated as unroutable
+const MAX_SNAP_DISTANCE_METERS = 1000;
+// Isochrone hulls are widened by this much so pins beside the outermost roads fall inside
+const ISOCHRONE_BUFFER_METERS = 25;
+// Concave hull edge limit: at least this, or a third of the isochrone's extent
+const MIN_HULL_EDGE_KM = 0.25;
+
+// Gives pending requests and I/O a turn between the blocking stages of loading a graph
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+/**
+ * Classify a turn by its angle in degrees, positive to the right
+ */
+function classifyTurn(angle: number): ManeuverType {
+  const magnitude = Math.abs(angle);
+  if (magnitude < 20) {
+    return 'straight';
+  }
+  if (magnitude >= 170) {
+    return 'u_turn';
+  }
+  const side = angle > 0 ? 'right' : 'left';
+  if (magnitude < 45) {
+    return `slight_${side}`;
+  }
+  return magnitude < 120 ? `turn_${side}` : `sharp_${side}`;
+}
+
+/**
+ * Built-in router over a local OSM extract (XML or PBF), for air-gapped deployments.
+ * The extract is read and a road graph built per travel profile by warmUp() at startup;
+ * requests arriving earlier wait for the graph they need.
+ */
+export class OfflineProvider implements RoutingProvider {
+  public readonly name = 'offline' as const;
+  public readonly supportsAlternatives = false;
+  private extract: Promise<OsmExtract> | null = null;
+  private graphs: Map<TravelProfile, Promise<RoadGraph>> = new Map();
+
+  constructor(private readonly extractPath: string) {}
+
+  public async route(request: ProviderRouteRequest, signal?: AbortSignal): Promise<NormalizedRoute[]> {
+    const graph = await this.getGraph(request.profile);
+    const snapped = request.locations.map(location => graph.nearestNode(location));
+    if (snapped.some(match => !match || match.distance > MAX_SNAP_DISTANCE_METERS)) {
+      return [];
+    }
+
+    const nodes = [snapped[0]!.node];
+    const edges: GraphEdge[] = [];
+    const waypointIndices = new Set<number>();
+
+    for (let i = 1; i < snapped.length; i++) {
+      signal?.throwIfAborted();
+      const path = graph.shortestPath(snapped[i - 1]!.node, snapped[i]!.node);
+      if (!path) {
+        return [];
+      }
+      nodes.push(...path.nodes.slice(1));
+      edges.push(...path.edges);
+      waypointIndices.add(nodes.length - 1);
+    }
+
+    // Start and end on the same node still make a (zero-length) line
+    if (nodes.length === 1) {
+      nodes.push(nodes[0]);
+    }
+
+    return [{
+      distance: edges.reduce((sum, edge) => sum + edge.distance, 0),
+      duration: edges.reduce((sum, edge) => sum + edge.duration, 0),
+      coordinates: nodes.map(node => graph.coordinate(node)),
+      maneuvers: this.buildManeuvers(graph, nodes, edges, waypointIndices),
+      language: 'en',
+    }];
+  }
+
+  /**
+   * Reachable areas from the graph: a Dijkstra search up to the largest range, then per range a
+   * concave hull around the reached nodes and the points where the limit cuts edges
+   */
+  public async isochrones(request: ProviderIsochroneRequest, signal?: AbortSignal): Promise<IsochroneFeature[]> {
+    const graph = await this.getGraph(request.profile);
+    const start = graph.nearestNode(request.location);
+    if (!start || start.distance > MAX_SNAP_DISTANCE_METERS) {
+      return [];
+    }
+
+    const metric = request.rangeType === 'time' ? 'duration' : 'distance';
+    const costs = graph.reachable(start.node, Math.max(...request.ranges), metric);
+    signal?.throwIfAborted();
+
+    return request.ranges.map((range): IsochroneFeature => {
+      const points: number[][] = [];
+      const segments: number[][][] = [];
+      costs.forEach((cost, node) => {
+        if (cost > range) {
+          return;
+        }
+        const [lng, lat] = graph.coordinate(node);
+        points.push([lng, lat]);
+
+        graph.edges(node).forEach(edge => {
+          const fraction = Math.min(1, (range - cost) / edge[metric]);
+          const [toLng, toLat] = graph.coordinate(edge.to);
+          const end = [lng + (toLng - lng) * fraction, lat + (toLat - lat) * fraction];
+          segments.push([[lng, lat], end]);
+          if (fraction < 1) {
+            points.push(end);
+          }
+        });
+      });
+
+      // Reached roads all on one line have no hull, so the roads themselves are buffered instead
+      const center = turf.point(graph.coordinate(start.node));
+      const extentKm = Math.max(0, ...points.map(point => turf.distance(center, turf.point(point))));
+      const collection = turf.featureCollection(points.map(point => turf.point(point)));
+      const hull = (points.length >= 3
+        ? turf.concave(collection, { maxEdge: Math.max(MIN_HULL_EDGE_KM, extentKm / 3) }) ?? turf.convex(collection)
+        : null) ?? (segments.length > 0 ? turf.multiLineString(segments) : turf.multiPoint(points));
+
+      return {
+        type: 'Feature',
+        geometry: turf.buffer(hull, ISOCHRONE_BUFFER_METERS, { units: 'meters' }).geometry as IsochroneFeature['geometry'],
+        properties: { value: range, rangeType: request.rangeType },
+      };
+    });
+  }
+
+  /**
+   * One Dijkstra search per source over the graph; locations that don't snap to a road get nulls
+   */
+  public async matrix(request: ProviderMatrixRequest, signal?: AbortSignal): Promise<RouteMatrix> {
+    const graph = await this.getGraph(request.profile);
+    const snap = (location: Location) => {
+      const match = graph.nearestNode(location);
+      return match && match.distance <= MAX_SNAP_DISTANCE_METERS ? match.node : null;
+    };
+    const targets = request.destinations.map(snap);
+    const durations: RouteMatrix['durations'] = [];
+    const distances: RouteMatrix['distances'] = [];
+
+    request.sources.forEach(location => {
+      signal?.throwIfAborted();
+      const from = snap(location);
+      const found = from === null
+        ? new Map<number, { duration: number; distance: number }>()
+        : graph.fastestTo(from, targets.filter((node): node is number => node !== null));
+      durations.push(targets.map(node => (node === null ? null : found.get(node)?.duration ?? null)));
+      distances.push(targets.map(node => (node === null ? null : found.get(node)?.distance ?? null)));
+    });
+
+    return { durations, distances };
+  }
+
+  /**
+   * Load the extract and build the graph of every travel profile, one at a time so requests
+   * aren't held up for all of them. Once every graph is built the parsed extract is released,
+   * as it holds about as much memory as the graphs. Failures are logged and retried by the next
+   * request.
+   */
+  public async warmUp(): Promise<void> {
+    try {
+      for (const profile of ROAD_PROFILES) {
+        await this.getGraph(profile);
+      }
+      this.extract = null;
+      logger.info('Released OSM extract after building offline road graphs', { profiles: ROAD_PROFILES.length });
+    } catch {
+      // Already logged by loadExtract
+    }
+  }
+
+  /**
+   * Road graph for a profile, loading the extract and building the graph if warmUp hasn't yet
+   */
+  public getGraph(profile: TravelProfile): Promise<RoadGraph> {
+    let graph = this.graphs.get(profile);
+    if (!graph) {
+      graph = this.loadExtract()
+        .then(async extract => {
+          await yieldToEventLoop();
+          const built = RoadGraph.build(extract, profile);
+          logger.info(`Built offline ${profile} road graph`, { nodes: built.size });
+          return built;
+        })
+        .catch(error => {
+          this.graphs.delete(profile);
+          throw error;
+        });
+      this.graphs.set(profile, graph);
+    }
+    return graph;
+  }
+
+  private loadExtract(): Promise<OsmExtract> {
+    if (!this.extract) {
+      this.extract = readFile(this.extractPath)
+        .then(async data => {
+          await yieldToEventLoop();
+          const extract = /\.pbf$/i.test(this.extractPath)
+            ? parseOsmPbf(data)
+            : parseOsmXml(data.toString('utf8'));
+          logger.info('Loaded OSM extract for offline routing', {
+            path: this.extractPath,
+            nodes: extract.nodes.size,
+            ways: extract.ways.length,
+          });
+          return extract;
+        })
+        .catch(error => {
+          // Allow a retry once the file is fixed
+          this.extract = null;
+          logger.error(`Failed to load OSM extract ${this.extractPath}`, error);
+          throw error;
+        });
+    }
+    return this.extract;
+  }
+
+  /**
+   * Group edges into maneuvers: a new one starts where the street name changes, or where the
+   * path turns at a junction or waypoint. Instructions are English only.
+   */
+  private buildManeuvers(
+    graph: RoadGraph,
+    nodes: number[],
+    edges: GraphEdge[],
+    waypointIndices: Set<number>
+  ): RouteManeuver[] {
+    const maneuvers: RouteManeuver[] = [];
+    const lastIndex = nodes.length - 1;
+    let current: RouteManeuver = {
+      type: 'depart',
+      instruction: '',
+      streetName: edges[0]?.name,
+      distance: 0,
+      duration: 0,
+      startIndex: 0,
+      endIndex: 0,
+    };
+
+    edges.forEach((edge, i) => {
+      if (i > 0) {
+        const incoming = calculateBearing(this.toLocation(graph, nodes[i - 1]), this.toLocation(graph, nodes[i]));
+        const outgoing = calculateBearing(this.toLocation(graph, nodes[i]), this.toLocation(graph, nodes[i + 1]));
+        const type = classifyTurn(((outgoing - incoming + 540) % 360) - 180);
+        const decisionPoint = graph.degree(nodes[i]) > 2 || waypointIndices.has(i);
+
+        if (edge.name !== edges[i - 1].name || (type !== 'straight' && decisionPoint)) {
+          maneuvers.push({ ...current, endIndex: i });
+          current = { type, instruction: '', streetName: edge.name, distance: 0, duration: 0, startIndex: i, endIndex: i };
+        }
+      }
+      current.distance += edge.distance;
+      current.duration += edge.duration;
+    });
+
+    maneuvers.push({ ...current, endIndex: lastIndex });
+    maneuvers.push({
+      type: 'arrive',
+      instruction: '',
+      distance: 0,
+      duration: 0,
+      startIndex: lastIndex,
+      endIndex: lastIndex,
+    });
+
+    return maneuvers.map(maneuver => ({
+      ...maneuver,
+      instruction: describeManeuver(maneuver.type, maneuver.streetName),
+    }));
+  }
+
+  private toLocation(graph: RoadGraph, node: number) {
+    const [lng, lat] = graph.coordinate(node);
+    return { lat, lng };
+  }
+}
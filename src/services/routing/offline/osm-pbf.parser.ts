@@ -0,0 +1,316 @@
+import { inflateSync } from 'zlib';
+import { OsmExtract } from '../../../types/routing.types.js';
+
+/**
+ * Minimal protobuf reader for the OSM PBF messages. Varints are decoded with floating point
+ * arithmetic so 64-bit IDs stay exact up to 2^53, which covers every OSM ID.
+ */
+class ProtobufReader {
+  private pos: number;
+
+  constructor(private readonly buffer: Buffer, start: number = 0, private readonly end: number = buffer.length) {
+    this.pos = start;
+  }
+
+  public hasMore(): boolean {
+    return this.pos < this.end;
+  }
+
+  public readTag(): { field: number; wireType: number } {
+    const key = this.readVarint();
+    return { field: Math.floor(key / 8), wireType: key % 8 };
+  }
+
+  public readVarint(): number {
+    let value = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = this.buffer[this.pos++];
+      value += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return value;
+  }
+
+  // Negative int64 values are ten-byte two's complement; precision beyond 2^53 is lost
+  public readInt64(): number {
+    const value = this.readVarint();
+    return value >= 2 ** 63 ? value - 2 ** 64 : value;
+  }
+
+  public readSVarint(): number {
+    const value = this.readVarint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  public readBytes(): Buffer {
+    const length = this.readVarint();
+    const bytes = this.buffer.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  public readMessage(): ProtobufReader {
+    const length = this.readVarint();
+    const reader = new ProtobufReader(this.buffer, this.pos, this.pos + length);
+    this.pos += length;
+    return reader;
+  }
+
+  public readPacked(signed: boolean = false): number[] {
+    const reader = this.readMessage();
+    const values: number[] = [];
+    while (reader.hasMore()) {
+      values.push(signed ? reader.readSVarint() : reader.readVarint());
+    }
+    return values;
+  }
+
+  public skip(wireType: number): void {
+    switch (wireType) {
+      case 0:
+        this.readVarint();
+        break;
+      case 1:
+        this.pos += 8;
+        break;
+      case 2:
+        this.pos += this.readVarint();
+        break;
+      case 5:
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+// HeaderBlock required_features this reader handles; files needing anything else are rejected
+const SUPPORTED_FEATURES = new Set(['OsmSchema-V0.6', 'DenseNodes']);
+
+interface BlockContext {
+  strings: string[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+}
+
+function readBlob(blob: Buffer): Buffer {
+  const reader = new ProtobufReader(blob);
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) {
+      return reader.readBytes(); // raw
+    }
+    if (field === 3) {
+      return inflateSync(reader.readBytes()); // zlib_data
+    }
+    if (field >= 4 && field <= 7) {
+      throw new Error('Unsupported PBF blob compression (only raw and zlib are supported)');
+    }
+    reader.skip(wireType);
+  }
+  throw new Error('Empty PBF blob');
+}
+
+/**
+ * Check the HeaderBlock's required features, which a reader must understand to read the file
+ * correctly (e.g. HistoricalInformation keeps old versions of elements alongside current ones)
+ */
+function checkHeaderBlock(block: Buffer): void {
+  const unsupported: string[] = [];
+  const reader = new ProtobufReader(block);
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 4) {
+      const feature = reader.readBytes().toString('utf8');
+      if (!SUPPORTED_FEATURES.has(feature)) {
+        unsupported.push(feature);
+      }
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported PBF features required: ${unsupported.join(', ')}`);
+  }
+}
+
+function readDenseNodes(reader: ProtobufReader, context: BlockContext, extract: OsmExtract): void {
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) {
+      ids = reader.readPacked(true);
+    } else if (field === 8) {
+      lats = reader.readPacked(true);
+    } else if (field === 9) {
+      lons = reader.readPacked(true);
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  // IDs and coordinates are delta coded
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  ids.forEach((delta, i) => {
+    id += delta;
+    lat += lats[i];
+    lon += lons[i];
+    extract.nodes.set(id, [
+      (context.lonOffset + context.granularity * lon) * 1e-9,
+      (context.latOffset + context.granularity * lat) * 1e-9,
+    ]);
+  });
+}
+
+function readNode(reader: ProtobufReader, context: BlockContext, extract: OsmExtract): void {
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) {
+      id = reader.readSVarint();
+    } else if (field === 8) {
+      lat = reader.readSVarint();
+    } else if (field === 9) {
+      lon = reader.readSVarint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  extract.nodes.set(id, [
+    (context.lonOffset + context.granularity * lon) * 1e-9,
+    (context.latOffset + context.granularity * lat) * 1e-9,
+  ]);
+}
+
+function readWay(reader: ProtobufReader, context: BlockContext, extract: OsmExtract): void {
+  let id = 0;
+  let keys: number[] = [];
+  let values: number[] = [];
+  let refs: number[] = [];
+
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) {
+      id = reader.readVarint();
+    } else if (field === 2) {
+      keys = reader.readPacked();
+    } else if (field === 3) {
+      values = reader.readPacked();
+    } else if (field === 8) {
+      refs = reader.readPacked(true);
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  const tags: Record<string, string> = {};
+  keys.forEach((key, i) => {
+    tags[context.strings[key]] = context.strings[values[i]];
+  });
+
+  let nodeId = 0;
+  extract.ways.push({
+    id,
+    nodeIds: refs.map(delta => (nodeId += delta)),
+    tags,
+  });
+}
+
+function readPrimitiveBlock(block: Buffer, extract: OsmExtract): void {
+  const context: BlockContext = { strings: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const groups: Buffer[] = [];
+
+  const reader = new ProtobufReader(block);
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) {
+      const table = reader.readMessage();
+      while (table.hasMore()) {
+        const tag = table.readTag();
+        if (tag.field === 1) {
+          context.strings.push(table.readBytes().toString('utf8'));
+        } else {
+          table.skip(tag.wireType);
+        }
+      }
+    } else if (field === 2) {
+      // Groups need the string table and offsets, which may come later in the block
+      groups.push(reader.readBytes());
+    } else if (field === 17) {
+      context.granularity = reader.readVarint();
+    } else if (field === 19) {
+      context.latOffset = reader.readInt64();
+    } else if (field === 20) {
+      context.lonOffset = reader.readInt64();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  groups.forEach(group => {
+    const groupReader = new ProtobufReader(group);
+    while (groupReader.hasMore()) {
+      const { field, wireType } = groupReader.readTag();
+      if (field === 1) {
+        readNode(groupReader.readMessage(), context, extract);
+      } else if (field === 2) {
+        readDenseNodes(groupReader.readMessage(), context, extract);
+      } else if (field === 3) {
+        readWay(groupReader.readMessage(), context, extract);
+      } else {
+        groupReader.skip(wireType);
+      }
+    }
+  });
+}
+
+/**
+ * Parse an OSM PBF extract (.osm.pbf) into node coordinates and ways. Relations are ignored.
+ */
+export function parseOsmPbf(data: Buffer): OsmExtract {
+  const extract: OsmExtract = { nodes: new Map(), ways: [] };
+  let pos = 0;
+
+  while (pos < data.length) {
+    const headerLength = data.readUInt32BE(pos);
+    pos += 4;
+
+    let type = '';
+    let dataSize = 0;
+    const header = new ProtobufReader(data, pos, pos + headerLength);
+    while (header.hasMore()) {
+      const { field, wireType } = header.readTag();
+      if (field === 1) {
+        type = header.readBytes().toString('utf8');
+      } else if (field === 3) {
+        dataSize = header.readVarint();
+      } else {
+        header.skip(wireType);
+      }
+    }
+    pos += headerLength;
+
+    if (type === 'OSMHeader') {
+      checkHeaderBlock(readBlob(data.subarray(pos, pos + dataSize)));
+    } else if (type === 'OSMData') {
+      readPrimitiveBlock(readBlob(data.subarray(pos, pos + dataSize)), extract);
+    }
+    pos += dataSize;
+  }
+
+  return extract;
+}
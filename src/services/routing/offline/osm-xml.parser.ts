@@ -0,0 +1,58 @@
+import { OsmExtract } from '../../../types/routing.types.js';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, , value] of source.matchAll(/([\w:]+)\s*=\s*(["'])(.*?)\2/g)) {
+    attributes[name] = decodeEntities(value);
+  }
+  return attributes;
+}
+
+/**
+ * Parse an OSM XML extract (.osm) into node coordinates and ways. Relations are ignored.
+ */
+export function parseOsmXml(xml: string): OsmExtract {
+  const extract: OsmExtract = { nodes: new Map(), ways: [] };
+
+  for (const [, attributes] of xml.matchAll(/<node\b([^>]*)>/g)) {
+    const { id, lat, lon } = parseAttributes(attributes);
+    if (id && lat && lon) {
+      extract.nodes.set(Number(id), [parseFloat(lon), parseFloat(lat)]);
+    }
+  }
+
+  for (const [, attributes, body] of xml.matchAll(/<way\b([^>]*)>([\s\S]*?)<\/way>/g)) {
+    const tags: Record<string, string> = {};
+    for (const [, tag] of body.matchAll(/<tag\b([^>]*)>/g)) {
+      const { k, v } = parseAttributes(tag);
+      if (k !== undefined && v !== undefined) {
+        tags[k] = v;
+      }
+    }
+
+    extract.ways.push({
+      id: Number(parseAttributes(attributes).id),
+      nodeIds: Array.from(body.matchAll(/<nd\b[^>]*\bref\s*=\s*["'](-?\d+)["']/g), ([, ref]) => Number(ref)),
+      tags,
+    });
+  }
+
+  return extract;
+}
@@ -0,0 +1,358 @@
+import RBush from 'rbush';
+import { Location, TravelProfile } from '../../../types/index.js';
+import { OsmExtract } from '../../../types/routing.types.js';
+import { getOnewayDirection, getWaySpeed } from './road-profiles.js';
+
+export interface GraphEdge {
+  to: number;
+  distance: number; // meters
+  duration: number; // seconds
+  name?: string;
+}
+
+export interface GraphPath {
+  nodes: number[];
+  edges: GraphEdge[]; // edges[i] leads from nodes[i] to nodes[i + 1]
+  distance: number;
+  duration: number;
+}
+
+interface NodeItem extends RBush.BBox {
+  node: number;
+}
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const RADIANS = Math.PI / 180;
+// First search radius around a location for its nearest node; doubled until a node is found
+const INITIAL_SNAP_SEARCH_METERS = 100;
+
+/**
+ * Great-circle distance between [lng, lat] pairs in meters. Inlined rather than going through
+ * turf because graph building and A* call it for every edge and expanded node.
+ */
+function haversine(a: number[], b: number[]): number {
+  const dLat = (b[1] - a[1]) * RADIANS;
+  const dLng = (b[0] - a[0]) * RADIANS;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a[1] * RADIANS) * Math.cos(b[1] * RADIANS) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Binary min-heap of node indices keyed by priority
+ */
+class MinHeap {
+  private nodes: number[] = [];
+  private priorities: number[] = [];
+
+  public get size(): number {
+    return this.nodes.length;
+  }
+
+  public push(node: number, priority: number): void {
+    this.nodes.push(node);
+    this.priorities.push(priority);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) {
+        break;
+      }
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  public pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.nodes.length && this.priorities[left] < this.priorities[smallest]) {
+          smallest = left;
+        }
+        if (right < this.nodes.length && this.priorities[right] < this.priorities[smallest]) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
+/**
+ * Road graph for one travel profile, built from the ways of an OSM extract that the profile
+ * may use. Edge costs are travel times; shortest paths are found with A*.
+ */
+export class RoadGraph {
+  private constructor(
+    public readonly profile: TravelProfile,
+    private readonly coordinates: number[][],
+    private readonly adjacency: GraphEdge[][],
+    private readonly degrees: number[],
+    private readonly maxSpeed: number, // m/s, keeps the A* heuristic admissible
+    private readonly index: RBush<NodeItem> // Nodes with at least one outgoing edge
+  ) {}
+
+  /**
+   * Build the graph for a profile; nodes not on any usable way are left out
+   */
+  public static build(extract: OsmExtract, profile: TravelProfile): RoadGraph {
+    const indices = new Map<number, number>();
+    const coordinates: number[][] = [];
+    const adjacency: GraphEdge[][] = [];
+    const links: Set<number>[] = [];
+    let maxSpeed = 0;
+
+    const indexOf = (nodeId: number): number => {
+      let index = indices.get(nodeId);
+      if (index === undefined) {
+        index = coordinates.length;
+        indices.set(nodeId, index);
+        coordinates.push(extract.nodes.get(nodeId)!);
+        adjacency.push([]);
+        links.push(new Set());
+      }
+      return index;
+    };
+
+    extract.ways.forEach(way => {
+      const speedKmh = getWaySpeed(way.tags, profile);
+      if (!speedKmh) {
+        return;
+      }
+
+      const speed = speedKmh / 3.6;
+      maxSpeed = Math.max(maxSpeed, speed);
+      const direction = getOnewayDirection(way.tags, profile);
+      const name = way.tags.name || way.tags.ref;
+      const nodeIds = way.nodeIds.filter(id => extract.nodes.has(id));
+
+      for (let i = 0; i < nodeIds.length - 1; i++) {
+        const from = indexOf(nodeIds[i]);
+        const to = indexOf(nodeIds[i + 1]);
+        const distance = haversine(coordinates[from], coordinates[to]);
+        const duration = distance / speed;
+        links[from].add(to);
+        links[to].add(from);
+
+        if (direction >= 0) {
+          adjacency[from].push({ to, distance, duration, name });
+        }
+        if (direction <= 0) {
+          adjacency[to].push({ to: from, distance, duration, name });
+        }
+      }
+    });
+
+    const index = new RBush<NodeItem>();
+    index.load(coordinates.flatMap(([lng, lat], node) =>
+      adjacency[node].length > 0 ? [{ minX: lng, minY: lat, maxX: lng, maxY: lat, node }] : []
+    ));
+
+    return new RoadGraph(profile, coordinates, adjacency, links.map(set => set.size), maxSpeed, index);
+  }
+
+  public get size(): number {
+    return this.coordinates.length;
+  }
+
+  /**
+   * [lng, lat] of a node
+   */
+  public coordinate(node: number): number[] {
+    return this.coordinates[node];
+  }
+
+  /**
+   * Number of distinct nodes a node connects to, in either direction
+   */
+  public degree(node: number): number {
+    return this.degrees[node];
+  }
+
+  /**
+   * Outgoing edges of a node
+   */
+  public edges(node: number): GraphEdge[] {
+    return this.adjacency[node];
+  }
+
+  /**
+   * Cheapest cost from a node to every node within a limit (Dijkstra), by travel time or distance
+   */
+  public reachable(from: number, limit: number, metric: 'duration' | 'distance'): Map<number, number> {
+    const costs = new Map<number, number>([[from, 0]]);
+    const settled = new Set<number>();
+    const open = new MinHeap();
+    open.push(from, 0);
+
+    while (open.size > 0) {
+      const node = open.pop();
+      if (settled.has(node)) {
+        continue;
+      }
+      settled.add(node);
+
+      const cost = costs.get(node)!;
+      this.adjacency[node].forEach(edge => {
+        const candidate = cost + edge[metric];
+        if (candidate <= limit && candidate < (costs.get(edge.to) ?? Infinity)) {
+          costs.set(edge.to, candidate);
+          open.push(edge.to, candidate);
+        }
+      });
+    }
+
+    return costs;
+  }
+
+  /**
+   * Fastest travel time, and the distance along that path, from a node to each target (Dijkstra,
+   * stopping once every target is settled). Unreachable targets are left out.
+   */
+  public fastestTo(from: number, targets: number[]): Map<number, { duration: number; distance: number }> {
+    const remaining = new Set(targets);
+    const found = new Map<number, { duration: number; distance: number }>();
+    const best = new Map<number, { duration: number; distance: number }>([[from, { duration: 0, distance: 0 }]]);
+    const settled = new Set<number>();
+    const open = new MinHeap();
+    open.push(from, 0);
+
+    while (open.size > 0 && remaining.size > 0) {
+      const node = open.pop();
+      if (settled.has(node)) {
+        continue;
+      }
+      settled.add(node);
+
+      const current = best.get(node)!;
+      if (remaining.delete(node)) {
+        found.set(node, current);
+      }
+      this.adjacency[node].forEach(edge => {
+        const duration = current.duration + edge.duration;
+        if (duration < (best.get(edge.to)?.duration ?? Infinity)) {
+          best.set(edge.to, { duration, distance: current.distance + edge.distance });
+          open.push(edge.to, duration);
+        }
+      });
+    }
+
+    return found;
+  }
+
+  /**
+   * Closest node to a location that has at least one outgoing edge. Searches boxes of growing
+   * size around the location until one holds a node within the searched radius.
+   */
+  public nearestNode(location: Location): { node: number; distance: number } | null {
+    const target = [location.lng, location.lat];
+
+    for (let radius = INITIAL_SNAP_SEARCH_METERS; ; radius *= 2) {
+      const latSpan = (radius / EARTH_RADIUS_METERS) / RADIANS;
+      // Longitude degrees shrink towards the poles, so the span is taken at the box's poleward edge
+      const poleward = Math.min(90, Math.abs(location.lat) + latSpan);
+      const lngSpan = latSpan / Math.max(Math.cos(poleward * RADIANS), 1e-6);
+      const whole = latSpan >= 180;
+      // Boxes crossing the antimeridian search the whole latitude band
+      const wrapped = whole || location.lng - lngSpan < -180 || location.lng + lngSpan > 180;
+
+      const candidates = this.index.search({
+        minX: wrapped ? -180 : location.lng - lngSpan,
+        minY: whole ? -90 : location.lat - latSpan,
+        maxX: wrapped ? 180 : location.lng + lngSpan,
+        maxY: whole ? 90 : location.lat + latSpan,
+      });
+
+      let best: { node: number; distance: number } | null = null;
+      for (const { node } of candidates) {
+        const distance = haversine(this.coordinates[node], target);
+        if (!best || distance < best.distance) {
+          best = { node, distance };
+        }
+      }
+
+      if (whole || (best && best.distance <= radius)) {
+        return best;
+      }
+    }
+  }
+
+  /**
+   * Fastest path between two nodes, or null when the target is unreachable
+   */
+  public shortestPath(from: number, to: number): GraphPath | null {
+    const target = this.coordinates[to];
+    const heuristic = (node: number) => this.maxSpeed > 0 ? haversine(this.coordinates[node], target) / this.maxSpeed : 0;
+
+    const durations = new Map<number, number>([[from, 0]]);
+    const previous = new Map<number, { node: number; edge: GraphEdge }>();
+    const settled = new Set<number>();
+    const open = new MinHeap();
+    open.push(from, heuristic(from));
+
+    while (open.size > 0) {
+      const node = open.pop();
+      if (node === to) {
+        return this.buildPath(from, to, previous);
+      }
+      if (settled.has(node)) {
+        continue;
+      }
+      settled.add(node);
+
+      const duration = durations.get(node)!;
+      this.adjacency[node].forEach(edge => {
+        const candidate = duration + edge.duration;
+        if (candidate < (durations.get(edge.to) ?? Infinity)) {
+          durations.set(edge.to, candidate);
+          previous.set(edge.to, { node, edge });
+          open.push(edge.to, candidate + heuristic(edge.to));
+        }
+      });
+    }
+
+    return null;
+  }
+
+  private buildPath(from: number, to: number, previous: Map<number, { node: number; edge: GraphEdge }>): GraphPath {
+    const nodes = [to];
+    const edges: GraphEdge[] = [];
+    let node = to;
+
+    while (node !== from) {
+      const step = previous.get(node)!;
+      edges.push(step.edge);
+      nodes.push(step.node);
+      node = step.node;
+    }
+    nodes.reverse();
+    edges.reverse();
+
+    return {
+      nodes,
+      edges,
+      distance: edges.reduce((sum, edge) => sum + edge.distance, 0),
+      duration: edges.reduce((sum, edge) => sum + edge.duration, 0),
+    };
+  }
+}
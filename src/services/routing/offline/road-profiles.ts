@@ -0,0 +1,155 @@
+import { TravelProfile } from '../../../types/index.js';
+
+// Typical driving speeds in km/h per highway class, used when a way has no usable maxspeed
+const DRIVING_SPEEDS: Record<string, number> = {
+  motorway: 110,
+  motorway_link: 60,
+  trunk: 90,
+  trunk_link: 50,
+  primary: 70,
+  primary_link: 50,
+  secondary: 60,
+  secondary_link: 40,
+  tertiary: 50,
+  tertiary_link: 40,
+  unclassified: 40,
+  residential: 30,
+  road: 30,
+  living_street: 10,
+  service: 15,
+  track: 15,
+};
+
+const CYCLING_SPEEDS: Record<string, number> = {
+  ...Object.fromEntries(
+    Object.keys(DRIVING_SPEEDS)
+      .filter(highway => !highway.startsWith('motorway') && !highway.startsWith('trunk'))
+      .map(highway => [highway, 18])
+  ),
+  cycleway: 18,
+  living_street: 10,
+  track: 12,
+  path: 12,
+};
+
+const WALKING_SPEEDS: Record<string, number> = {
+  ...Object.fromEntries(Object.keys(CYCLING_SPEEDS).map(highway => [highway, 5])),
+  footway: 5,
+  pedestrian: 5,
+  path: 5,
+  bridleway: 5,
+  steps: 3,
+};
+
+const WHEELCHAIR_SPEEDS: Record<string, number> = Object.fromEntries(
+  Object.keys(WALKING_SPEEDS)
+    .filter(highway => !['steps', 'path', 'track', 'bridleway'].includes(highway))
+    .map(highway => [highway, 4])
+);
+
+const PROFILE_SPEEDS: Record<TravelProfile, Record<string, number>> = {
+  driving: DRIVING_SPEEDS,
+  cycling: CYCLING_SPEEDS,
+  walking: WALKING_SPEEDS,
+  wheelchair: WHEELCHAIR_SPEEDS,
+};
+
+// Profiles the offline router builds a road graph for
+export const ROAD_PROFILES = Object.keys(PROFILE_SPEEDS) as TravelProfile[];
+
+// Speed on ways a profile can only use when tagged for it, e.g. bicycle=yes on a footway
+const PERMITTED_SPEEDS: Record<TravelProfile, number> = {
+  driving: 20,
+  cycling: 10,
+  walking: 5,
+  wheelchair: 4,
+};
+
+// Access tags from most to least specific
+const ACCESS_KEYS: Record<TravelProfile, string[]> = {
+  driving: ['motorcar', 'motor_vehicle', 'vehicle', 'access'],
+  cycling: ['bicycle', 'vehicle', 'access'],
+  walking: ['foot', 'access'],
+  wheelchair: ['wheelchair', 'foot', 'access'],
+};
+
+const ALLOWED_ACCESS = new Set(['yes', 'designated', 'permissive', 'destination', 'limited']);
+const DENIED_ACCESS = new Set(['no', 'private', 'agricultural', 'forestry', 'delivery', 'use_sidepath']);
+
+/**
+ * Parse a maxspeed tag to km/h. Returns null for values like "none" or zone codes.
+ */
+export function parseMaxSpeed(value?: string): number | null {
+  if (!value) {
+    return null;
+  }
+  if (value === 'walk') {
+    return 6;
+  }
+
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(mph|knots)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const speed = parseFloat(match[1]);
+  if (match[2] === 'mph') {
+    return speed * 1.609;
+  }
+  return match[2] === 'knots' ? speed * 1.852 : speed;
+}
+
+/**
+ * Travel speed in km/h for a way, or null when the profile may not use it
+ */
+export function getWaySpeed(tags: Record<string, string>, profile: TravelProfile): number | null {
+  const highway = tags.highway;
+  if (!highway || tags.area === 'yes') {
+    return null;
+  }
+
+  const accessKey = ACCESS_KEYS[profile].find(key => tags[key] !== undefined);
+  const access = accessKey ? tags[accessKey] : undefined;
+  if (access && DENIED_ACCESS.has(access)) {
+    return null;
+  }
+
+  const classSpeed = PROFILE_SPEEDS[profile][highway];
+  const speed = classSpeed ?? (access && ALLOWED_ACCESS.has(access) ? PERMITTED_SPEEDS[profile] : undefined);
+  if (speed === undefined) {
+    return null;
+  }
+
+  // Legal limits bind every profile; drivers are assumed to travel at the limit
+  const maxSpeed = parseMaxSpeed(tags.maxspeed);
+  if (maxSpeed === null) {
+    return speed;
+  }
+  return profile === 'driving' ? maxSpeed : Math.min(speed, maxSpeed);
+}
+
+/**
+ * Direction a profile may travel along a way: 1 forward only, -1 backward only, 0 both
+ */
+export function getOnewayDirection(tags: Record<string, string>, profile: TravelProfile): 0 | 1 | -1 {
+  if (profile === 'walking' || profile === 'wheelchair') {
+    return 0;
+  }
+  if (profile === 'cycling' && (tags['oneway:bicycle'] === 'no' || tags.cycleway?.startsWith('opposite'))) {
+    return 0;
+  }
+
+  const oneway = tags.oneway;
+  if (oneway === '-1' || oneway === 'reverse') {
+    return -1;
+  }
+  if (oneway === 'yes' || oneway === 'true' || oneway === '1') {
+    return 1;
+  }
+  if (oneway === 'no') {
+    return 0;
+  }
+
+  const impliedOneway = tags.junction === 'roundabout' || tags.junction === 'circular' || tags.highway === 'motorway';
+  return impliedOneway ? 1 : 0;
+}
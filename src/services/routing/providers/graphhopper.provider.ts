@@ -0,0 +1,131 @@
+import { AxiosInstance } from 'axios';
+import { ManeuverType, RouteManeuver, TravelProfile } from '../../../types/index.js';
+import {
+  NormalizedRoute,
+  ProviderMatrixRequest,
+  ProviderRouteRequest,
+  RouteMatrix,
+  RoutingProvider,
+  RoutingProviderOptions,
+} from '../../../types/routing.types.js';
+import { createProviderClient } from './provider.utils.js';
+
+interface GraphHopperResponse {
+  paths: Array<{
+    distance: number;
+    time: number; // milliseconds
+    points: {
+      coordinates: number[][];
+    };
+    instructions: Array<{
+      text: string;
+      street_name: string;
+      distance: number;
+      time: number; // milliseconds
+      interval: [number, number];
+      sign: number;
+      exit_number?: number;
+    }>;
+  }>;
+}
+
+interface GraphHopperMatrixResponse {
+  times: Array<Array<number | null>>; // seconds
+  distances: Array<Array<number | null>>;
+}
+
+// GraphHopper instruction signs
+const GRAPHHOPPER_SIGNS: Record<number, ManeuverType> = {
+  [-98]: 'u_turn',
+  [-8]: 'u_turn',
+  [-7]: 'keep_left',
+  [-6]: 'exit_roundabout',
+  [-3]: 'sharp_left',
+  [-2]: 'turn_left',
+  [-1]: 'slight_left',
+  0: 'straight',
+  1: 'slight_right',
+  2: 'turn_right',
+  3: 'sharp_right',
+  4: 'arrive',
+  5: 'arrive',
+  6: 'enter_roundabout',
+  7: 'keep_right',
+  8: 'u_turn',
+};
+
+const PROFILES: Record<TravelProfile, string> = {
+  driving: 'car',
+  walking: 'foot',
+  cycling: 'bike',
+  wheelchair: 'foot',
+};
+
+/**
+ * GraphHopper Routing API (https://www.graphhopper.com)
+ */
+export class GraphHopperProvider implements RoutingProvider {
+  public readonly name = 'graphhopper' as const;
+  public readonly supportsAlternatives = true;
+  private client: AxiosInstance;
+  private readonly apiKey?: string;
+
+  constructor(options: RoutingProviderOptions) {
+    this.client = createProviderClient('https://graphhopper.com/api/1', options, {
+      'Content-Type': 'application/json',
+    });
+    this.apiKey = options.apiKey;
+  }
+
+  public async route(request: ProviderRouteRequest, signal?: AbortSignal): Promise<NormalizedRoute[]> {
+    const response = await this.client.post<GraphHopperResponse>(
+      '/route',
+      {
+        points: request.locations.map(location => [location.lng, location.lat]),
+        profile: PROFILES[request.profile],
+        locale: request.language,
+        instructions: true,
+        points_encoded: false,
+        ...(request.alternatives ? {
+          'algorithm': 'alternative_route',
+          'alternative_route.max_paths': request.alternatives + 1,
+        } : {}),
+      },
+      { params: this.apiKey ? { key: this.apiKey } : undefined, signal }
+    );
+
+    return response.data.paths.map(path => ({
+      distance: path.distance,
+      duration: path.time / 1000,
+      coordinates: path.points.coordinates,
+      maneuvers: path.instructions.map((instruction, i): RouteManeuver => ({
+        // GraphHopper has no departure sign; its first instruction is the departure
+        type: i === 0 ? 'depart' : GRAPHHOPPER_SIGNS[instruction.sign] || 'straight',
+        instruction: instruction.text,
+        streetName: instruction.street_name || undefined,
+        distance: instruction.distance,
+        duration: instruction.time / 1000,
+        startIndex: instruction.interval[0],
+        endIndex: instruction.interval[1],
+        exitNumber: instruction.exit_number,
+      })),
+      language: request.language,
+    }));
+  }
+
+  public async matrix(request: ProviderMatrixRequest, signal?: AbortSignal): Promise<RouteMatrix> {
+    const response = await this.client.post<GraphHopperMatrixResponse>(
+      '/matrix',
+      {
+        from_points: request.sources.map(location => [location.lng, location.lat]),
+        to_points: request.destinations.map(location => [location.lng, location.lat]),
+        profile: PROFILES[request.profile],
+        out_arrays: ['times', 'distances'],
+        fail_fast: false,
+      },
+      { params: this.apiKey ? { key: this.apiKey } : undefined, signal }
+    );
+
+    return { durations: response.data.times, distances: response.data.distances };
+  }
+}
@@ -0,0 +1,43 @@
+import config from '../../../config/config.service.js';
+import { RoutingProvider } from '../../../types/routing.types.js';
+import { OpenRouteProvider } from './openroute.provider.js';
+import { OsrmProvider } from './osrm.provider.js';
+import { ValhallaProvider } from './valhalla.provider.js';
+import { GraphHopperProvider } from './graphhopper.provider.js';
+import { MapboxProvider } from './mapbox.provider.js';
+import { OfflineProvider } from '../offline/offline.provider.js';
+
+export { OpenRouteProvider, OsrmProvider, ValhallaProvider, GraphHopperProvider, MapboxProvider, OfflineProvider };
+
+/**
+ * Create the routing provider selected by ROUTING_PROVIDER (or the configured API key).
+ * Offline mode with an OSM extract takes precedence so nothing leaves the machine.
+ * Returns null when none is usable, in which case routes fall back to straight lines.
+ */
+export function createRoutingProvider(): RoutingProvider | null {
+  const { routingProvider, routingBaseUrl, offlineMapPath } = config.getConfig();
+  if (config.hasOfflineRouting()) {
+    return new OfflineProvider(offlineMapPath!);
+  }
+
+  const options = {
+    baseUrl: routingBaseUrl,
+    apiKey: config.getRoutingApiKey(),
+    timeout: config.getTimeout('routingApi'),
+  };
+
+  switch (routingProvider) {
+    case 'openrouteservice':
+      return new OpenRouteProvider(options);
+    case 'osrm':
+      return new OsrmProvider(options);
+    case 'valhalla':
+      return new ValhallaProvider(options);
+    case 'graphhopper':
+      return new GraphHopperProvider(options);
+    case 'mapbox':
+      return new MapboxProvider(options);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,51 @@
+import { TravelProfile } from '../../../types/index.js';
+import { ProviderRouteRequest, RoutingProvider, RoutingProviderOptions } from '../../../types/routing.types.js';
+import { OsrmProvider } from './osrm.provider.js';
+
+const PROFILES: Record<TravelProfile, string> = {
+  driving: 'driving',
+  walking: 'walking',
+  cycling: 'cycling',
+  wheelchair: 'walking',
+};
+
+/**
+ * Mapbox Directions API. Responses use the OSRM format with localized instructions.
+ */
+export class MapboxProvider extends OsrmProvider {
+  public readonly name: RoutingProvider['name'] = 'mapbox';
+  private readonly accessToken?: string;
+
+  constructor(options: RoutingProviderOptions) {
+    super(options, 'https://api.mapbox.com');
+    this.accessToken = options.apiKey;
+  }
+
+  protected routePath(profile: TravelProfile, coordinates: string): string {
+    return `/directions/v5/mapbox/${PROFILES[profile]}/${coordinates}`;
+  }
+
+  protected tablePath(profile: TravelProfile, coordinates: string): string {
+    return `/directions-matrix/v1/mapbox/${PROFILES[profile]}/${coordinates}`;
+  }
+
+  protected tableParams(): Record<string, string> {
+    return this.accessToken ? { access_token: this.accessToken } : {};
+  }
+
+  protected routeParams(request: ProviderRouteRequest): Record<string, string | number | boolean> {
+    return {
+      overview: 'full',
+      geometries: 'geojson',
+      steps: true,
+      // Mapbox only takes a flag and returns up to two alternatives
+      alternatives: !!request.alternatives,
+      language: request.language,
+      ...(this.accessToken ? { access_token: this.accessToken } : {}),
+    };
+  }
+
+  protected instructionLanguage(request: ProviderRouteRequest): string {
+    return request.language;
+  }
+}
@@ -0,0 +1,174 @@
+import { AxiosInstance } from 'axios';
+import { ManeuverType, RouteManeuver, TravelProfile } from '../../../types/index.js';
+import {
+  IsochroneFeature,
+  NormalizedRoute,
+  ProviderIsochroneRequest,
+  ProviderMatrixRequest,
+  ProviderRouteRequest,
+  RouteMatrix,
+  RoutingProvider,
+  RoutingProviderOptions,
+} from '../../../types/routing.types.js';
+import { createProviderClient } from './provider.utils.js';
+
+interface OpenRouteResponse {
+  features: Array<{
+    geometry: {
+      coordinates: number[][];
+      type: string;
+    };
+    properties: {
+      segments: Array<{
+        distance: number;
+        duration: number;
+        steps: Array<{
+          distance: number;
+          duration: number;
+          type: number;
+          instruction: string;
+          name: string;
+          way_points: number[];
+          exit_number?: number;
+        }>;
+      }>;
+      summary: {
+        distance: number;
+        duration: number;
+      };
+    };
+  }>;
+}
+
+interface OpenRouteIsochroneResponse {
+  features: Array<{
+    geometry: IsochroneFeature['geometry'];
+    properties: {
+      value: number;
+    };
+  }>;
+}
+
+interface OpenRouteMatrixResponse {
+  durations: Array<Array<number | null>>;
+  distances: Array<Array<number | null>>;
+}
+
+// ORS step types, indexed by their numeric code
+const ORS_MANEUVER_TYPES: ManeuverType[] = [
+  'turn_left',
+  'turn_right',
+  'sharp_left',
+  'sharp_right',
+  'slight_left',
+  'slight_right',
+  'straight',
+  'enter_roundabout',
+  'exit_roundabout',
+  'u_turn',
+  'arrive',
+  'depart',
+  'keep_left',
+  'keep_right',
+];
+
+const PROFILES: Record<TravelProfile, string> = {
+  driving: 'driving-car',
+  walking: 'foot-walking',
+  cycling: 'cycling-regular',
+  wheelchair: 'wheelchair',
+};
+
+/**
+ * OpenRouteService directions (https://openrouteservice.org)
+ */
+export class OpenRouteProvider implements RoutingProvider {
+  public readonly name = 'openrouteservice' as const;
+  public readonly supportsAlternatives = true;
+  private client: AxiosInstance;
+
+  constructor(options: RoutingProviderOptions) {
+    this.client = createProviderClient('https://api.openrouteservice.org/v2', options, {
+      'Accept': 'application/json, application/geo+json',
+      'Content-Type': 'application/json',
+      ...(options.apiKey ? { 'Authorization': options.apiKey } : {}),
+    });
+  }
+
+  public async route(request: ProviderRouteRequest, signal?: AbortSignal): Promise<NormalizedRoute[]> {
+    const response = await this.client.post<OpenRouteResponse>(
+      `/directions/${PROFILES[request.profile]}/geojson`,
+      {
+        coordinates: request.locations.map(location => [location.lng, location.lat]),
+        preference: 'recommended',
+        instructions: true,
+        language: request.language,
+        ...(request.alternatives ? {
+          alternative_routes: {
+            target_count: request.alternatives + 1,
+            share_factor: 0.6,
+            weight_factor: 1.4,
+          },
+        } : {}),
+      },
+      { signal }
+    );
+
+    return response.data.features.map(feature => ({
+      distance: feature.properties.summary.distance,
+      duration: feature.properties.summary.duration,
+      coordinates: feature.geometry.coordinates,
+      maneuvers: feature.properties.segments.flatMap(segment =>
+        segment.steps.map((step): RouteManeuver => ({
+          type: ORS_MANEUVER_TYPES[step.type] || 'straight',
+          instruction: step.instruction,
+          streetName: step.name && step.name !== '-' ? step.name : undefined,
+          distance: step.distance,
+          duration: step.duration,
+          startIndex: step.way_points[0],
+          endIndex: step.way_points[step.way_points.length - 1],
+          exitNumber: step.exit_number,
+        }))
+      ),
+      language: request.language,
+    }));
+  }
+
+  public async isochrones(request: ProviderIsochroneRequest, signal?: AbortSignal): Promise<IsochroneFeature[]> {
+    const response = await this.client.post<OpenRouteIsochroneResponse>(
+      `/isochrones/${PROFILES[request.profile]}`,
+      {
+        locations: [[request.location.lng, request.location.lat]],
+        range: request.ranges,
+        range_type: request.rangeType,
+        units: 'm',
+      },
+      { signal }
+    );
+
+    return response.data.features
+      .map((feature): IsochroneFeature => ({
+        type: 'Feature',
+        geometry: feature.geometry,
+        properties: { value: feature.properties.value, rangeType: request.rangeType },
+      }))
+      .sort((a, b) => a.properties.value - b.properties.value);
+  }
+
+  public async matrix(request: ProviderMatrixRequest, signal?: AbortSignal): Promise<RouteMatrix> {
+    const locations = [...request.sources, ...request.destinations];
+    const response = await this.client.post<OpenRouteMatrixResponse>(
+      `/matrix/${PROFILES[request.profile]}`,
+      {
+        locations: locations.map(location => [location.lng, location.lat]),
+        sources: request.sources.map((_, i) => i),
+        destinations: request.destinations.map((_, i) => request.sources.length + i),
+        metrics: ['duration', 'distance'],
+        units: 'm',
+      },
+      { signal }
+    );
+
+    return { durations: response.data.durations, distances: response.data.distances };
+  }
+}
@@ -0,0 +1,194 @@
+import { AxiosInstance } from 'axios';
+import { ManeuverType, TravelProfile } from '../../../types/index.js';
+import {
+  NormalizedRoute,
+  ProviderMatrixRequest,
+  ProviderRouteRequest,
+  RouteMatrix,
+  RoutingProvider,
+  RoutingProviderOptions,
+} from '../../../types/routing.types.js';
+import { createProviderClient, describeManeuver, locateManeuvers } from './provider.utils.js';
+
+// Route response shared by OSRM and Mapbox Directions
+export interface OsrmResponse {
+  code: string;
+  routes: Array<{
+    distance: number;
+    duration: number;
+    geometry: {
+      coordinates: number[][];
+      type: string;
+    };
+    legs: Array<{
+      steps: Array<{
+        distance: number;
+        duration: number;
+        name: string;
+        maneuver: {
+          type: string;
+          modifier?: string;
+          location: number[];
+          exit?: number;
+          instruction?: string; // Mapbox only
+        };
+      }>;
+    }>;
+  }>;
+}
+
+// Table response shared by OSRM and the Mapbox Matrix API
+interface OsrmTableResponse {
+  code: string;
+  durations?: Array<Array<number | null>>;
+  distances?: Array<Array<number | null>>;
+}
+
+const MODIFIER_TYPES: Record<string, ManeuverType> = {
+  'left': 'turn_left',
+  'right': 'turn_right',
+  'sharp left': 'sharp_left',
+  'sharp right': 'sharp_right',
+  'slight left': 'slight_left',
+  'slight right': 'slight_right',
+  'straight': 'straight',
+  'uturn': 'u_turn',
+};
+
+const PROFILES: Record<TravelProfile, string> = {
+  driving: 'driving',
+  walking: 'foot',
+  cycling: 'bike',
+  wheelchair: 'foot',
+};
+
+/**
+ * Map an OSRM maneuver type and modifier to a maneuver type
+ */
+function toManeuverType(type: string, modifier?: string): ManeuverType {
+  switch (type) {
+    case 'depart':
+    case 'arrive':
+      return type;
+    case 'roundabout':
+    case 'rotary':
+    case 'roundabout turn':
+      return 'enter_roundabout';
+    case 'exit roundabout':
+    case 'exit rotary':
+      return 'exit_roundabout';
+    case 'fork':
+    case 'on ramp':
+    case 'off ramp':
+      if (modifier?.includes('left')) {
+        return 'keep_left';
+      }
+      if (modifier?.includes('right')) {
+        return 'keep_right';
+      }
+  }
+  return (modifier && MODIFIER_TYPES[modifier]) || 'straight';
+}
+
+/**
+ * OSRM HTTP API (http://project-osrm.org). Instructions are generated in English because OSRM
+ * only reports maneuver types.
+ */
+export class OsrmProvider implements RoutingProvider {
+  public readonly name: RoutingProvider['name'] = 'osrm';
+  public readonly supportsAlternatives = true;
+  protected client: AxiosInstance;
+
+  constructor(options: RoutingProviderOptions, defaultBaseUrl: string = 'https://router.project-osrm.org') {
+    this.client = createProviderClient(defaultBaseUrl, options);
+  }
+
+  public async route(request: ProviderRouteRequest, signal?: AbortSignal): Promise<NormalizedRoute[]> {
+    const coordinates = request.locations.map(location => `${location.lng},${location.lat}`).join(';');
+    const response = await this.client.get<OsrmResponse>(this.routePath(request.profile, coordinates), {
+      params: this.routeParams(request),
+      signal,
+    });
+
+    return this.normalize(response.data, request);
+  }
+
+  public async matrix(request: ProviderMatrixRequest, signal?: AbortSignal): Promise<RouteMatrix> {
+    const coordinates = [...request.sources, ...request.destinations]
+      .map(location => `${location.lng},${location.lat}`)
+      .join(';');
+    const response = await this.client.get<OsrmTableResponse>(this.tablePath(request.profile, coordinates), {
+      params: {
+        ...this.tableParams(),
+        sources: request.sources.map((_, i) => i).join(';'),
+        destinations: request.destinations.map((_, i) => request.sources.length + i).join(';'),
+        annotations: 'duration,distance',
+      },
+      signal,
+    });
+
+    const { code, durations, distances } = response.data;
+    if (code !== 'Ok' || !durations || !distances) {
+      throw new Error(`${this.name} table request failed: ${code}`);
+    }
+    return { durations, distances };
+  }
+
+  protected routePath(profile: TravelProfile, coordinates: string): string {
+    return `/route/v1/${PROFILES[profile]}/${coordinates}`;
+  }
+
+  protected tablePath(profile: TravelProfile, coordinates: string): string {
+    return `/table/v1/${PROFILES[profile]}/${coordinates}`;
+  }
+
+  protected tableParams(): Record<string, string> {
+    return {};
+  }
+
+  protected routeParams(request: ProviderRouteRequest): Record<string, string | number | boolean> {
+    return {
+      overview: 'full',
+      geometries: 'geojson',
+      steps: true,
+      alternatives: request.alternatives || false,
+    };
+  }
+
+  protected normalize(data: OsrmResponse, request: ProviderRouteRequest): NormalizedRoute[] {
+    if (data.code !== 'Ok') {
+      return [];
+    }
+
+    const routes = data.routes.map(route => {
+      const coordinates = route.geometry.coordinates;
+      const steps = route.legs.flatMap(leg => leg.steps);
+
+      return {
+        distance: route.distance,
+        duration: route.duration,
+        coordinates,
+        maneuvers: locateManeuvers(coordinates, steps.map(step => {
+          const type = toManeuverType(step.maneuver.type, step.maneuver.modifier);
+          const streetName = step.name || undefined;
+          return {
+            type,
+            instruction: step.maneuver.instruction || describeManeuver(type, streetName, step.maneuver.exit),
+            streetName,
+            distance: step.distance,
+            duration: step.duration,
+            exitNumber: step.maneuver.exit,
+            location: step.maneuver.location,
+          };
+        })),
+        language: this.instructionLanguage(request),
+      };
+    });
+
+    return routes.slice(0, (request.alternatives || 0) + 1);
+  }
+
+  protected instructionLanguage(_request: ProviderRouteRequest): string {
+    return 'en';
+  }
+}
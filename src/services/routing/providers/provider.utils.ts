@@ -0,0 +1,116 @@
+import axios, { AxiosInstance } from 'axios';
+import { ManeuverType, RouteManeuver } from '../../../types/index.js';
+import { RoutingProviderOptions } from '../../../types/routing.types.js';
+
+const MANEUVER_PHRASES: Record<ManeuverType, string> = {
+  depart: 'Depart',
+  arrive: 'Arrive at your destination',
+  straight: 'Continue straight',
+  turn_left: 'Turn left',
+  turn_right: 'Turn right',
+  sharp_left: 'Turn sharp left',
+  sharp_right: 'Turn sharp right',
+  slight_left: 'Turn slightly left',
+  slight_right: 'Turn slightly right',
+  keep_left: 'Keep left',
+  keep_right: 'Keep right',
+  enter_roundabout: 'Enter the roundabout',
+  exit_roundabout: 'Exit the roundabout',
+  u_turn: 'Make a U-turn',
+};
+
+/**
+ * Create an HTTP client for a routing provider
+ */
+export function createProviderClient(
+  defaultBaseUrl: string,
+  options: RoutingProviderOptions,
+  headers: Record<string, string> = {}
+): AxiosInstance {
+  return axios.create({
+    baseURL: (options.baseUrl || defaultBaseUrl).replace(/\/+$/, ''),
+    timeout: options.timeout,
+    headers: {
+      'Accept': 'application/json',
+      ...headers,
+    },
+  });
+}
+
+/**
+ * English instruction for providers that only return maneuver types
+ */
+export function describeManeuver(type: ManeuverType, streetName?: string, exitNumber?: number): string {
+  let instruction = MANEUVER_PHRASES[type];
+  if (type === 'enter_roundabout' && exitNumber) {
+    instruction += ` and take exit ${exitNumber}`;
+  }
+  if (streetName && type !== 'arrive') {
+    instruction += `${type === 'depart' || type === 'straight' ? ' on' : ' onto'} ${streetName}`;
+  }
+  return instruction;
+}
+
+/**
+ * Decode an encoded polyline to [lng, lat] pairs. Valhalla uses precision 6, Google-style polylines 5.
+ */
+export function decodePolyline(encoded: string, precision: number = 5): number[][] {
+  const factor = Math.pow(10, precision);
+  const coordinates: number[][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    coordinates.push([lng / factor, lat / factor]);
+  }
+
+  return coordinates;
+}
+
+/**
+ * Link maneuvers to coordinate ranges for providers that only report where each maneuver
+ * happens. Each location is matched to the closest coordinate at or after the previous match,
+ * and a maneuver runs until the next one starts.
+ */
+export function locateManeuvers(
+  coordinates: number[][],
+  maneuvers: Array<Omit<RouteManeuver, 'startIndex' | 'endIndex'> & { location: number[] }>
+): RouteManeuver[] {
+  const lastIndex = coordinates.length - 1;
+  let cursor = 0;
+
+  const starts = maneuvers.map(({ location }) => {
+    let best = cursor;
+    let bestDistance = Infinity;
+    for (let i = cursor; i <= lastIndex; i++) {
+      const distance = (coordinates[i][0] - location[0]) ** 2 + (coordinates[i][1] - location[1]) ** 2;
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    }
+    cursor = best;
+    return best;
+  });
+
+  return maneuvers.map(({ location: _location, ...maneuver }, i) => ({
+    ...maneuver,
+    startIndex: starts[i],
+    endIndex: i + 1 < starts.length ? starts[i + 1] : lastIndex,
+  }));
+}
@@ -0,0 +1,166 @@
+import { AxiosInstance } from 'axios';
+import { Location, ManeuverType, RouteManeuver, TravelProfile } from '../../../types/index.js';
+import {
+  NormalizedRoute,
+  ProviderMatrixRequest,
+  ProviderRouteRequest,
+  RouteMatrix,
+  RoutingProvider,
+  RoutingProviderOptions,
+} from '../../../types/routing.types.js';
+import { createProviderClient, decodePolyline } from './provider.utils.js';
+
+interface ValhallaTrip {
+  language?: string;
+  summary: {
+    length: number; // kilometers
+    time: number; // seconds
+  };
+  legs: Array<{
+    shape: string; // polyline, precision 6
+    maneuvers: Array<{
+      type: number;
+      instruction: string;
+      street_names?: string[];
+      length: number;
+      time: number;
+      begin_shape_index: number;
+      end_shape_index: number;
+      roundabout_exit_count?: number;
+    }>;
+  }>;
+}
+
+interface ValhallaResponse {
+  trip: ValhallaTrip;
+  alternates?: Array<{ trip: ValhallaTrip }>;
+}
+
+interface ValhallaMatrixResponse {
+  sources_to_targets: Array<Array<{
+    distance: number | null; // kilometers
+    time: number | null; // seconds
+  }>>;
+}
+
+// Valhalla maneuver type codes; anything unlisted (continue, becomes, merge...) is straight on
+const VALHALLA_MANEUVER_TYPES: Record<number, ManeuverType> = {
+  1: 'depart',
+  2: 'depart',
+  3: 'depart',
+  4: 'arrive',
+  5: 'arrive',
+  6: 'arrive',
+  9: 'slight_right',
+  10: 'turn_right',
+  11: 'sharp_right',
+  12: 'u_turn',
+  13: 'u_turn',
+  14: 'sharp_left',
+  15: 'turn_left',
+  16: 'slight_left',
+  18: 'keep_right',
+  19: 'keep_left',
+  20: 'keep_right',
+  21: 'keep_left',
+  23: 'keep_right',
+  24: 'keep_left',
+  26: 'enter_roundabout',
+  27: 'exit_roundabout',
+};
+
+const COSTING: Record<TravelProfile, string> = {
+  driving: 'auto',
+  walking: 'pedestrian',
+  cycling: 'bicycle',
+  wheelchair: 'pedestrian',
+};
+
+/**
+ * Valhalla routing engine (https://valhalla.github.io/valhalla)
+ */
+export class ValhallaProvider implements RoutingProvider {
+  public readonly name = 'valhalla' as const;
+  public readonly supportsAlternatives = true;
+  private client: AxiosInstance;
+
+  constructor(options: RoutingProviderOptions) {
+    this.client = createProviderClient('https://valhalla1.openstreetmap.de', options, {
+      'Content-Type': 'application/json',
+    });
+  }
+
+  public async route(request: ProviderRouteRequest, signal?: AbortSignal): Promise<NormalizedRoute[]> {
+    const response = await this.client.post<ValhallaResponse>(
+      '/route',
+      {
+        locations: request.locations.map(location => ({ lat: location.lat, lon: location.lng })),
+        costing: COSTING[request.profile],
+        ...(request.profile === 'wheelchair' ? { costing_options: { pedestrian: { type: 'wheelchair' } } } : {}),
+        directions_options: { language: request.language, units: 'kilometers' },
+        ...(request.alternatives ? { alternates: request.alternatives } : {}),
+      },
+      { signal }
+    );
+
+    const trips = [response.data.trip, ...(response.data.alternates || []).map(alternate => alternate.trip)];
+    return trips.map(trip => this.normalize(trip, request.language));
+  }
+
+  public async matrix(request: ProviderMatrixRequest, signal?: AbortSignal): Promise<RouteMatrix> {
+    const toLocation = (location: Location) => ({ lat: location.lat, lon: location.lng });
+    const response = await this.client.post<ValhallaMatrixResponse>(
+      '/sources_to_targets',
+      {
+        sources: request.sources.map(toLocation),
+        targets: request.destinations.map(toLocation),
+        costing: COSTING[request.profile],
+        ...(request.profile === 'wheelchair' ? { costing_options: { pedestrian: { type: 'wheelchair' } } } : {}),
+        units: 'kilometers',
+      },
+      { signal }
+    );
+
+    const rows = response.data.sources_to_targets;
+    return {
+      durations: rows.map(row => row.map(cell => cell.time)),
+      distances: rows.map(row => row.map(cell => (cell.distance === null ? null : cell.distance * 1000))),
+    };
+  }
+
+  /**
+   * Join the legs into one line; each leg starts where the previous one ended, so the shared
+   * point is kept once and maneuver indices are shifted accordingly
+   */
+  private normalize(trip: ValhallaTrip, language: string): NormalizedRoute {
+    const coordinates: number[][] = [];
+    const maneuvers: RouteManeuver[] = [];
+
+    trip.legs.forEach(leg => {
+      const offset = Math.max(coordinates.length - 1, 0);
+      const shape = decodePolyline(leg.shape, 6);
+      coordinates.push(...(coordinates.length > 0 ? shape.slice(1) : shape));
+
+      leg.maneuvers.forEach(maneuver => {
+        maneuvers.push({
+          type: VALHALLA_MANEUVER_TYPES[maneuver.type] || 'straight',
+          instruction: maneuver.instruction,
+          streetName: maneuver.street_names?.[0],
+          distance: maneuver.length * 1000,
+          duration: maneuver.time,
+          startIndex: offset + maneuver.begin_shape_index,
+          endIndex: offset + maneuver.end_shape_index,
+          exitNumber: maneuver.roundabout_exit_count,
+        });
+      });
+    });
+
+    return {
+      distance: trip.summary.length * 1000,
+      duration: trip.summary.time,
+      coordinates,
+      maneuvers,
+      language: trip.language || language,
+    };
+  }
+}
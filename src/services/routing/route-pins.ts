@@ -0,0 +1,56 @@
+import * as turf from '@turf/turf';
+import { GeoPin, PinRanking, RoutePin, RoutePinPosition } from '../../types/index.js';
+import osmService from '../enrichment/openstreetmap.service.js';
+
+// Balanced ranking: a detour of this many seconds halves a pin's score
+const BALANCED_DETOUR_SECONDS = 300;
+
+export interface RoutePinOptions {
+  interests?: string[];
+  detourSecondsPerMeter: number; // Travel time per meter of straight-line offset from the route, one way
+}
+
+/**
+ * Annotate pins with where they lie along a route: distance from the start to the closest point
+ * on the route, offset from it, the time a detour to the pin and back takes, and how well the
+ * pin matches the interests
+ */
+export function annotateRoutePins(
+  route: turf.Feature<turf.LineString>,
+  pins: GeoPin[],
+  options: RoutePinOptions
+): RoutePin[] {
+  return pins.map(pin => {
+    const nearest = turf.nearestPointOnLine(route, turf.point([pin.location.lng, pin.location.lat]), { units: 'meters' });
+    const offset = nearest.properties.dist ?? 0;
+    return {
+      ...pin,
+      alongRoute: {
+        distanceAlong: Math.round(nearest.properties.location ?? 0),
+        offset: Math.round(offset),
+        detourTime: Math.round(2 * offset * options.detourSecondsPerMeter),
+        relevance: Math.round(osmService.matchInterests(pin, options.interests) * 1000) / 1000,
+      },
+    };
+  });
+}
+
+const balancedScore = (position: RoutePinPosition) =>
+  position.relevance / (1 + position.detourTime / BALANCED_DETOUR_SECONDS);
+
+// Orders pins best first under each ranking
+const RANKINGS: Record<PinRanking, (a: RoutePinPosition, b: RoutePinPosition) => number> = {
+  relevance: (a, b) => b.relevance - a.relevance || a.detourTime - b.detourTime,
+  detour: (a, b) => a.detourTime - b.detourTime || b.relevance - a.relevance,
+  balanced: (a, b) => balancedScore(b) - balancedScore(a) || a.detourTime - b.detourTime,
+};
+
+/**
+ * The best limit pins under a ranking, in travel order
+ */
+export function rankRoutePins(pins: RoutePin[], ranking: PinRanking, limit: number): RoutePin[] {
+  return [...pins]
+    .sort((a, b) => RANKINGS[ranking](a.alongRoute, b.alongRoute) || a.alongRoute.distanceAlong - b.alongRoute.distanceAlong)
+    .slice(0, limit)
+    .sort((a, b) => a.alongRoute.distanceAlong - b.alongRoute.distanceAlong);
+}
@@ -0,0 +1,91 @@
+import logger from '../logger.service.js';
+import { RoutePin, RouteRequest, RouteResponse } from '../../types/index.js';
+
+export interface StoredRoute {
+  request: RouteRequest;
+  response: RouteResponse;
+  pins: RoutePin[]; // Every pin found along the route; the response has a ranked preview
+  createdAt: Date;
+  lastDistanceAlong?: number; // Progress at the last on-route upcoming_along_route position
+}
+
+const MAX_STORED_ROUTES = 500;
+
+class RouteStoreService {
+  private static instance: RouteStoreService;
+  private routes: Map<string, StoredRoute>;
+
+  private constructor() {
+    this.routes = new Map();
+    logger.info('Route store initialized', { maxRoutes: MAX_STORED_ROUTES });
+  }
+
+  public static getInstance(): RouteStoreService {
+    if (!RouteStoreService.instance) {
+      RouteStoreService.instance = new RouteStoreService();
+    }
+    return RouteStoreService.instance;
+  }
+
+  /**
+   * Store a generated route with all of its pins, evicting the oldest route when full
+   */
+  public save(request: RouteRequest, response: RouteResponse, pins: RoutePin[] = response.pins): StoredRoute {
+    if (this.routes.size >= MAX_STORED_ROUTES && !this.routes.has(response.routeId)) {
+      const oldestId = this.routes.keys().next().value;
+      if (oldestId !== undefined) {
+        this.routes.delete(oldestId);
+        logger.debug(`Evicted route ${oldestId} from route store`);
+      }
+    }
+
+    const stored: StoredRoute = {
+      request,
+      response,
+      pins,
+      createdAt: new Date(),
+    };
+    this.routes.set(response.routeId, stored);
+    return stored;
+  }
+
+  /**
+   * Get a stored route by ID
+   */
+  public get(routeId: string): StoredRoute | undefined {
+    return this.routes.get(routeId);
+  }
+
+  /**
+   * List stored routes, oldest first
+   */
+  public list(): StoredRoute[] {
+    return Array.from(this.routes.values());
+  }
+
+  /**
+   * Remove a stored route
+   */
+  public delete(routeId: string): boolean {
+    return this.routes.delete(routeId);
+  }
+
+  /**
+   * Remove all stored routes
+   */
+  public clear(): void {
+    this.routes.clear();
+  }
+
+  /**
+   * Get statistics about the route store
+   */
+  public getStats(): { totalRoutes: number; maxRoutes: number } {
+    return {
+      totalRoutes: this.routes.size,
+      maxRoutes: MAX_STORED_ROUTES,
+    };
+  }
+}
+
+export default RouteStoreService.getInstance();
@@ -0,0 +1,115 @@
+import * as turf from '@turf/turf';
+import { Location, RouteResponse } from '../../types/index.js';
+
+export interface SnappedPosition {
+  location: Location; // Closest point on the route
+  distanceAlong: number; // Meters from the route start
+  offset: number; // Meters between the position and the route
+}
+
+/**
+ * Linear interpolation of a value between two increasing series
+ */
+function interpolate(from: number[], to: number[], value: number): number {
+  if (value <= from[0]) {
+    return to[0];
+  }
+  for (let i = 1; i < from.length; i++) {
+    if (value <= from[i]) {
+      const span = from[i] - from[i - 1];
+      return span > 0 ? to[i - 1] + ((value - from[i - 1]) / span) * (to[i] - to[i - 1]) : to[i];
+    }
+  }
+  return to[to.length - 1];
+}
+
+/**
+ * Distance and travel time from the start at every coordinate of a route, for converting
+ * between where and when along it. Distances follow the geometry (as route pin positions do);
+ * each maneuver's duration is spread over its coordinates by length, and stretches no maneuver
+ * covers are travelled at the route's average speed.
+ */
+export class RouteTimeline {
+  public readonly distances: number[];
+  public readonly times: number[];
+  private readonly line: turf.Feature<turf.LineString>;
+
+  constructor(route: RouteResponse['route']) {
+    const { coordinates, maneuvers = [] } = route;
+    this.line = turf.lineString(coordinates);
+
+    this.distances = [0];
+    for (let i = 1; i < coordinates.length; i++) {
+      this.distances.push(this.distances[i - 1] + turf.distance(coordinates[i - 1], coordinates[i], { units: 'meters' }));
+    }
+
+    const length = this.length;
+    const segmentSeconds = this.distances.slice(1).map((distance, i) =>
+      length > 0 ? ((distance - this.distances[i]) / length) * route.duration : 0
+    );
+    maneuvers.forEach(({ startIndex, endIndex, duration }) => {
+      const span = this.distances[endIndex] - this.distances[startIndex];
+      for (let i = startIndex; i < endIndex && span > 0; i++) {
+        segmentSeconds[i] = ((this.distances[i + 1] - this.distances[i]) / span) * duration;
+      }
+    });
+
+    this.times = [0];
+    segmentSeconds.forEach((seconds, i) => this.times.push(this.times[i] + seconds));
+  }
+
+  /**
+   * Length of the route geometry in meters
+   */
+  public get length(): number {
+    return this.distances[this.distances.length - 1];
+  }
+
+  /**
+   * Travel time from the start to the end in seconds
+   */
+  public get duration(): number {
+    return this.times[this.times.length - 1];
+  }
+
+  /**
+   * Snap a position onto the closest point of the route. Where the route passes the same place
+   * twice (loops, out-and-back legs), the earlier pass wins unless resuming: then the closest
+   * point at or after resumeFrom meters wins while it is within maxOffset of the position, so
+   * progress doesn't jump back to an earlier pass.
+   */
+  public snap(position: Location, resumeFrom: number = 0, maxOffset: number = Infinity): SnappedPosition {
+    const nearest = this.nearestOn(this.line, position, 0);
+    if (resumeFrom <= 0 || resumeFrom >= this.length) {
+      return nearest;
+    }
+
+    const rest = turf.lineSliceAlong(this.line, resumeFrom, this.length, { units: 'meters' });
+    const ahead = this.nearestOn(rest, position, resumeFrom);
+    return ahead.offset <= Math.max(maxOffset, nearest.offset) ? ahead : nearest;
+  }
+
+  private nearestOn(line: turf.Feature<turf.LineString>, position: Location, startDistance: number): SnappedPosition {
+    const nearest = turf.nearestPointOnLine(line, turf.point([position.lng, position.lat]), { units: 'meters' });
+    const [lng, lat] = nearest.geometry.coordinates;
+    return {
+      location: { lat, lng },
+      distanceAlong: startDistance + (nearest.properties.location ?? 0),
+      offset: nearest.properties.dist ?? 0,
+    };
+  }
+
+  /**
+   * Seconds from the start to a distance along the route
+   */
+  public timeAt(distance: number): number {
+    return interpolate(this.distances, this.times, distance);
+  }
+
+  /**
+   * Distance along the route reached after travelling for some seconds from the start
+   */
+  public distanceAt(time: number): number {
+    return interpolate(this.times, this.distances, time);
+  }
+}
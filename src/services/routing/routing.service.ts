@@ -1,66 +1,94 @@
-import axios, { AxiosInstance } from 'axios';
 import * as turf from '@turf/turf';
-import { RouteRequest, RouteResponse, GeoPin } from '../../types/index.js';
+import {
+  RouteRequest,
+  RouteResponse,
+  GeoPin,
+  OperationOptions,
+  AlternativeRoutesResponse,
+  RouteAlternative,
+  OptimizedTripResponse,
+  Location,
+  RouteManeuver,
+  TravelProfile,
+  UpcomingAlongRoute,
+  UpcomingRequest,
+} from '../../types/index.js';
+import {
+  IsochroneFeature,
+  IsochroneResult,
+  NormalizedRoute,
+  ProviderIsochroneRequest,
+  ProviderMatrixRequest,
+  RouteMatrixResult,
+  RoutingProvider,
+} from '../../types/routing.types.js';
 import logger from '../logger.service.js';
 import cache from '../cache/cache.service.js';
 import config from '../../config/config.service.js';
 import osmService from '../enrichment/openstreetmap.service.js';
 import spatialIndex from '../spatial/spatial-index.service.js';
-import { generateId } from '../../utils/helpers.js';
+import routeStore, { StoredRoute } from './route-store.service.js';
+import { createRoutingProvider } from './providers/index.js';
+import { optimizeStopOrder, StopOrderConstraints, tripDuration } from './trip-optimizer.js';
+import { annotateRoutePins, rankRoutePins } from './route-pins.js';
+import { RouteTimeline } from './route-timeline.js';
+import { calculateDistance, generateId, isAbortError } from '../../utils/helpers.js';
 
-interface OpenRouteResponse {
-  features: Array<{
-    geometry: {
-      coordinates: number[][];
-      type: string;
-    };
-    properties: {
-      segments: Array<{
-        distance: number;
-        duration: number;
-        steps: Array<{
-          distance: number;
-          duration: number;
-          type: number;
-          instruction: string;
-          name: string;
-          way_points: number[];
-        }>;
-      }>;
-      summary: {
-        distance: number;
-        duration: number;
-      };
-    };
-  }>;
+const COMPASS_DIRECTIONS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+// Most providers return at most this many routes (main route included) for one request
+const MAX_PROVIDER_ROUTES = 3;
+// Points closer than this to the main route count as shared road
+const OVERLAP_TOLERANCE_METERS = 30;
+// Via-point alternatives: detour offsets as a share of the main route length, tried on both sides
+const VIA_POINT_OFFSETS = [0.1, 0.2, 0.3];
+// Cost multiplier per unit of overlap, so near-copies of the main route rank last
+const OVERLAP_PENALTY = 2;
+// Alternatives sharing more than this with the main route, or much slower than it, are dropped
+const MAX_SHARED_FRACTION = 0.8;
+const MAX_DURATION_FACTOR = 2;
+
+// Typical travel speeds in km/h for estimates made without a routing provider
+export const ESTIMATE_SPEEDS: Record<TravelProfile, number> = {
+  driving: 50,
+  walking: 5,
+  cycling: 15,
+  wheelchair: 4,
+};
+// Roads are about this much longer than the straight line between two points
+const DETOUR_FACTOR = 1.3;
+// POI corridor queries: the route is simplified to within this share of the buffer radius, then
+// split into pieces no longer or more detailed than below, one Overpass query each
+const CORRIDOR_SIMPLIFY_SHARE = 0.25;
+const CORRIDOR_CHUNK_METERS = 50000;
+const CORRIDOR_CHUNK_VERTICES = 100;
+const METERS_PER_DEGREE = 111320;
+// Route pins returned in the response unless the request asks for another number
+const DEFAULT_MAX_PINS = 20;
+// Look-ahead when a request gives neither a distance nor a time
+const DEFAULT_LOOK_AHEAD_METERS = 2000;
+// Positions further than this from a stored route are reported as off the route
+const OFF_ROUTE_METERS = 100;
+
+interface MatrixCell {
+  duration: number | null;
+  distance: number | null;
 }
 
 class RoutingService {
   private static instance: RoutingService;
-  private client: AxiosInstance | null = null;
-  private readonly profileMap = {
-    driving: 'driving-car',
-    walking: 'foot-walking',
-    cycling: 'cycling-regular',
-    wheelchair: 'wheelchair',
-  };
+  private provider: RoutingProvider | null;
+
   private constructor() {
-    const apiKey = config.getConfig().openRouteApiKey;
-    const timeout = config.getTimeout('routingApi');
-
-    if (apiKey) {
-      this.client = axios.create({
-        baseURL: 'https://api.openrouteservice.org/v2',
-        timeout,
-        headers: {
-          'Authorization': apiKey,
-          'Accept': 'application/json, application/geo+json',
-          'Content-Type': 'application/json',
-        },
+    this.provider = createRoutingProvider();
+
+    if (this.provider) {
+      logger.info(`Routing service initialized with ${this.provider.name}`, {
+        timeout: config.getTimeout('routingApi'),
+        baseUrl: config.getConfig().routingBaseUrl,
       });
-      logger.info('Routing service initialized with OpenRouteService', { timeout });
     } else {
-      logger.warn('No routing API key configured. Routing features will be limited.');
+      logger.warn('No routing provider configured. Routing features will be limited.');
     }
   }
 
@@ -72,49 +100,41 @@ class RoutingService {
   }
 
   /**
-   * Generate a route with contextual enrichment
+   * Let the provider prepare before the first request, e.g. the offline router building its
+   * road graphs. Resolves once it is ready; requests made meanwhile still wait for what they need.
    */
-  public async generateRoute(request: RouteRequest): Promise<RouteResponse> {
-    const routeId = generateId('route');
+  public async warmUp(): Promise<void> {
+    await this.provider?.warmUp?.();
+  }
+
+  /**
+   * Generate a route with contextual enrichment.
+   * Progress steps: routing, one per POI corridor query, then indexing.
+   */
+  public async generateRoute(
+    request: RouteRequest,
+    options: OperationOptions = {}
+  ): Promise<RouteResponse> {
+    const { signal, onProgress } = options;
+    let totalSteps = 2;
     
     try {
+      onProgress?.({ phase: 'routing', completed: 0 });
+
       // Get the basic route
-      const routeData = await this.fetchRoute(request);
+      const routeData = await this.fetchRoute(request, signal);
       
       if (!routeData) {
         throw new Error('Failed to generate route');
       }
-      
-      // Create route LineString
-      const routeLineString = turf.lineString(routeData.coordinates);
-      
-      // Create buffer around route for POI discovery
-      const bufferRadius = request.bufferRadius || 500;
-      // turf.buffer is only used for documentation purposes
-      // const routeBuffer = turf.buffer(routeLineString, bufferRadius, { units: 'meters' });
-      // Fetch POIs along the route
-      const pins = await this.discoverPOIsAlongRoute(
-        routeLineString,
-        bufferRadius,
-        request.interests
-      );
-      
-      // Add pins to spatial index for future queries
-      pins.forEach(pin => spatialIndex.addPin(pin));
-      
-      logger.info(`Generated route ${routeId} with ${pins.length} POIs`);
-      
-      return {
-        routeId,
-        route: {
-          distance: routeData.distance,
-          duration: routeData.duration,
-          coordinates: routeData.coordinates,
-        },
-        contextualPins: pins.length,
-        pins: pins.slice(0, 20), // Return first 20 pins as preview
-        message: `Route generated successfully with ${pins.length} points of interest`,
-      };
+
+      const response = await this.enrichRoute(request, routeData, signal, (queriesDone, queries) => {
+        totalSteps = queries + 2;
+        onProgress?.({ phase: 'poi_discovery', completed: 1 + queriesDone, total: totalSteps });
+      });
+      onProgress?.({ phase: 'indexing', completed: totalSteps, total: totalSteps });
+
+      return response;
     } catch (error) {
       logger.error('Failed to generate route', error);
       throw error;
@@ -122,73 +142,154 @@ class RoutingService {
   }
 
   /**
-   * Fetch route from OpenRouteService
+   * One maneuver per straight leg of a fallback route, plus arrival. Instructions are English only.
+   */
+  private generateFallbackManeuvers(coordinates: number[][], secondsPerMeter: number): RouteManeuver[] {
+    const lastIndex = coordinates.length - 1;
+    const maneuvers: RouteManeuver[] = [];
+
+    for (let i = 0; i < lastIndex; i++) {
+      const from = turf.point(coordinates[i]);
+      const to = turf.point(coordinates[i + 1]);
+      const distance = turf.distance(from, to, { units: 'meters' });
+      const direction = COMPASS_DIRECTIONS[Math.round(((turf.bearing(from, to) + 360) % 360) / 45) % 8];
+      const target = i + 1 === lastIndex ? 'your destination' : `waypoint ${i + 1}`;
+
+      maneuvers.push({
+        type: i === 0 ? 'depart' : 'straight',
+        instruction: `${i === 0 ? 'Head' : 'Continue'} ${direction} towards ${target}`,
+        distance,
+        duration: distance * secondsPerMeter,
+        startIndex: i,
+        endIndex: i + 1,
+      });
+    }
+
+    maneuvers.push({
+      type: 'arrive',
+      instruction: 'Arrive at your destination',
+      distance: 0,
+      duration: 0,
+      startIndex: lastIndex,
+      endIndex: lastIndex,
+    });
+
+    return maneuvers;
+  }
+
+  /**
+   * Discover POIs along a route geometry, index them and store the route
+   */
+  private async enrichRoute(
+    request: RouteRequest,
+    routeData: NormalizedRoute,
+    signal?: AbortSignal,
+    onQueryProgress?: (queriesDone: number, queries: number) => void
+  ): Promise<RouteResponse> {
+    const routeId = generateId('route');
+
+    // Create route LineString
+    const routeLineString = turf.lineString(routeData.coordinates);
+    
+    // Fetch POIs in the corridor around the route
+    const bufferRadius = request.bufferRadius || 500;
+    const pins = await this.discoverPOIsAlongRoute(
+      routeLineString,
+      bufferRadius,
+      request.interests,
+      signal,
+      onQueryProgress
+    );
+    
+    // Don't index or store a route the client no longer wants
+    signal?.throwIfAborted();
+
+    // Add pins to spatial index for future queries
+    pins.forEach(pin => spatialIndex.addPin(pin));
+    
+    logger.info(`Generated route ${routeId} with ${pins.length} POIs`);
+
+    const profile = request.profile || 'driving';
+    const routePins = annotateRoutePins(routeLineString, pins, {
+      interests: request.interests,
+      detourSecondsPerMeter: (DETOUR_FACTOR * 3.6) / ESTIMATE_SPEEDS[profile],
+    });
+    
+    const response: RouteResponse = {
+      routeId,
+      route: {
+        distance: routeData.distance,
+        duration: routeData.duration,
+        coordinates: routeData.coordinates,
+        maneuvers: routeData.maneuvers,
+        language: routeData.language,
+      },
+      contextualPins: pins.length,
+      pins: rankRoutePins(routePins, request.pinRanking || 'balanced', request.maxPins ?? DEFAULT_MAX_PINS),
+      message: `Route generated successfully with ${pins.length} points of interest`,
+    };
+
+    // Keep the route addressable by ID for resources and follow-up queries
+    routeStore.save(request, response, routePins);
+
+    return response;
+  }
+
+  /**
+   * Fetch route from the configured routing provider
    */
-  private async fetchRoute(request: RouteRequest): Promise<{
-    distance: number;
-    duration: number;
-    coordinates: number[][];
-  } | null> {
-    if (!this.client) {
+  private async fetchRoute(request: RouteRequest, signal?: AbortSignal): Promise<NormalizedRoute | null> {
+    const provider = this.provider;
+    if (!provider) {
       // Fallback to simple straight line if no API configured
       return this.generateFallbackRoute(request);
     }
 
+    const language = this.getLanguage(request);
+
     const cacheKey = cache.createKey(
       'route',
+      provider.name,
       request.start.lat,
       request.start.lng,
       request.end.lat,
       request.end.lng,
-      request.profile || 'driving'
+      request.profile || 'driving',
+      request.waypoints?.map(wp => `${wp.lat},${wp.lng}`).join(';') || 'direct',
+      language
     );
-    return cache.wrap(cacheKey, async () => {
-      try {
-        const coordinates: number[][] = [
-          [request.start.lng, request.start.lat],
-        ];
-        
-        if (request.waypoints) {
-          request.waypoints.forEach(wp => {
-            coordinates.push([wp.lng, wp.lat]);
-          });
-        }
-        
-        coordinates.push([request.end.lng, request.end.lat]);
-        
-        const response = await this.client!.post<OpenRouteResponse>(
-          `/directions/${this.profileMap[request.profile || 'driving']}/geojson`,
-          {
-            coordinates,
-            preference: 'recommended',
-          }
-        );
-        
-        if (response.data.features.length > 0) {
-          const feature = response.data.features[0];
-          return {
-            distance: feature.properties.summary.distance,
-            duration: feature.properties.summary.duration,
-            coordinates: feature.geometry.coordinates,
-          };
-        }
-        
-        return null;
-      } catch (error) {
-        logger.error('Failed to fetch route from OpenRouteService', error);
-        return null;
+
+    // Failures are thrown out of the cache so the next request asks the provider again
+    try {
+      const [route] = await cache.wrap(cacheKey, () => provider.route(
+        {
+          locations: [request.start, ...(request.waypoints || []), request.end],
+          profile: request.profile || 'driving',
+          language,
+        },
+        signal
+      ));
+      return route ?? null;
+    } catch (error) {
+      if (isAbortError(error, signal)) {
+        throw error;
       }
-    });
+      logger.error(`Failed to fetch route from ${provider.name}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Instruction language for a request
+   */
+  private getLanguage(request: RouteRequest): string {
+    return request.language || config.getConfig().routingLanguage;
   }
 
   /**
    * Generate fallback route when no API is available
    */
-  private generateFallbackRoute(request: RouteRequest): {
-    distance: number;
-    duration: number;
-    coordinates: number[][];
-  } {
+  private generateFallbackRoute(request: RouteRequest): NormalizedRoute {
     const coordinates: number[][] = [
       [request.start.lng, request.start.lat],
     ];
@@ -205,8 +306,8 @@ class RoutingService {
     const line = turf.lineString(coordinates);
     const distance = turf.length(line, { units: 'meters' });
     
-    // Estimate duration (assuming 50 km/h average speed)
-    const duration = (distance / 1000) * 72; // seconds
+    // Estimate duration at the profile's typical speed, as matrix and isochrone estimates do
+    const duration = distance / (ESTIMATE_SPEEDS[request.profile || 'driving'] / 3.6); // seconds
     
     logger.warn('Using fallback route generation (straight line)');
     
@@ -214,75 +315,510 @@ class RoutingService {
       distance,
       duration,
       coordinates,
+      maneuvers: this.generateFallbackManeuvers(coordinates, duration / Math.max(distance, 1)),
+      language: 'en',
     };
   }
   /**
-   * Discover POIs along a route
+   * Discover POIs within bufferRadius of a route. The route is simplified and split into a few
+   * corridor pieces, each fetched with one Overpass query around the line (widened by the
+   * simplification tolerance), one after another; only POIs within bufferRadius of the actual
+   * route are kept.
    */
   private async discoverPOIsAlongRoute(
     route: turf.Feature<turf.LineString>,
     bufferRadius: number,
-    interests?: string[]
+    interests?: string[],
+    signal?: AbortSignal,
+    onQueryProgress?: (queriesDone: number, queries: number) => void
   ): Promise<GeoPin[]> {
-    // Sample points along the route for POI discovery
-    const routeLength = turf.length(route, { units: 'meters' });
-    const sampleInterval = Math.min(1000, routeLength / 10); // Sample every 1km or 10 points
-    const numSamples = Math.floor(routeLength / sampleInterval);
-    
-    const samplePromises: Promise<GeoPin[]>[] = [];
-    
-    for (let i = 0; i <= numSamples; i++) {
-      const distance = i * sampleInterval;
-      const point = turf.along(route, distance, { units: 'meters' });
-      const coords = point.geometry.coordinates;
-      
-      samplePromises.push(
-        osmService.fetchPOIsNearLocation(
-          { lat: coords[1], lng: coords[0] },
-          bufferRadius,
-          interests
-        )
-      );
-    }
-    
+    const tolerance = bufferRadius * CORRIDOR_SIMPLIFY_SHARE;
+    const corridors = this.splitCorridor(this.simplifyLine(route, tolerance));
+
+    onQueryProgress?.(0, corridors.length);
+
     try {
-      const results = await Promise.all(samplePromises);
-      const allPins = results.flat();
-      
-      // Deduplicate pins by location
+      const found: GeoPin[] = [];
+      for (const [i, corridor] of corridors.entries()) {
+        found.push(...await osmService.fetchPOIsAlongLine(corridor, Math.ceil(bufferRadius + tolerance), interests, signal));
+        onQueryProgress?.(i + 1, corridors.length);
+      }
+
+      // Deduplicate pins by location, where pieces overlap at their ends
       const uniquePins = new Map<string, GeoPin>();
-      allPins.forEach(pin => {
+      found.forEach(pin => {
         const key = `${pin.location.lat.toFixed(5)},${pin.location.lng.toFixed(5)}`;
-        if (!uniquePins.has(key)) {
+        if (!uniquePins.has(key)
+          && turf.pointToLineDistance(turf.point([pin.location.lng, pin.location.lat]), route, { units: 'meters' }) <= bufferRadius) {
           uniquePins.set(key, pin);
         }
       });
-      
+
       return Array.from(uniquePins.values());
     } catch (error) {
+      if (isAbortError(error, signal)) {
+        throw error;
+      }
       logger.error('Failed to discover POIs along route', error);
       return [];
     }
   }
 
   /**
-   * Get alternative routes
+   * Coordinates of a line simplified to within a tolerance in meters. Lines turf can't simplify
+   * (no length, or doubling straight back on themselves) are returned unchanged.
+   */
+  private simplifyLine(line: turf.Feature<turf.LineString>, toleranceMeters: number): number[][] {
+    try {
+      return turf.simplify(line, { tolerance: toleranceMeters / METERS_PER_DEGREE }).geometry.coordinates;
+    } catch {
+      return line.geometry.coordinates;
+    }
+  }
+
+  /**
+   * Split a line into consecutive pieces sharing their end vertices, each at most
+   * CORRIDOR_CHUNK_METERS long (unless a single segment is longer) with CORRIDOR_CHUNK_VERTICES
+   */
+  private splitCorridor(coordinates: number[][]): number[][][] {
+    const pieces: number[][][] = [];
+    let piece = [coordinates[0]];
+    let length = 0;
+
+    for (let i = 1; i < coordinates.length; i++) {
+      const segment = turf.distance(coordinates[i - 1], coordinates[i], { units: 'meters' });
+      if (piece.length > 1 && (length + segment > CORRIDOR_CHUNK_METERS || piece.length >= CORRIDOR_CHUNK_VERTICES)) {
+        pieces.push(piece);
+        piece = [coordinates[i - 1]];
+        length = 0;
+      }
+      piece.push(coordinates[i]);
+      length += segment;
+    }
+
+    pieces.push(piece);
+    return pieces;
+  }
+
+  /**
+   * Get the main route plus up to numAlternatives genuinely different routes, each enriched
+   * with POIs and stored. Uses the provider's alternatives for plain start/end requests, otherwise
+   * routes detours through via points beside the main route and keeps the cheapest ones,
+   * penalising overlap with the main route.
    */
   public async getAlternativeRoutes(
     request: RouteRequest,
-    _numAlternatives: number = 2
-  ): Promise<RouteResponse[]> {
-    // This would implement alternative route calculation
-    // For now, just return the main route
-    const mainRoute = await this.generateRoute(request);
-    return [mainRoute];
+    numAlternatives: number = 2,
+    options: OperationOptions = {}
+  ): Promise<AlternativeRoutesResponse> {
+    const { signal, onProgress } = options;
+    onProgress?.({ phase: 'routing', completed: 0 });
+
+    let method: AlternativeRoutesResponse['method'] = 'provider';
+    let candidates = await this.fetchProviderAlternatives(request, numAlternatives, signal);
+    if (!candidates) {
+      method = 'via_point';
+      candidates = await this.fetchViaPointAlternatives(request, numAlternatives, signal);
+    }
+
+    const [mainData, ...alternativeData] = candidates;
+    const total = candidates.length + 1;
+    onProgress?.({ phase: 'poi_discovery', completed: 1, total });
+
+    const main = await this.enrichRoute(request, mainData, signal);
+    onProgress?.({ phase: 'poi_discovery', completed: 2, total });
+
+    const mainLine = turf.lineString(mainData.coordinates);
+    const alternatives: RouteAlternative[] = [];
+    for (const data of alternativeData) {
+      const response = await this.enrichRoute(request, data, signal);
+      alternatives.push({
+        ...response,
+        overlapWithMain: this.calculateOverlap(turf.lineString(data.coordinates), mainLine),
+      });
+      onProgress?.({ phase: 'poi_discovery', completed: 2 + alternatives.length, total });
+    }
+
+    return {
+      main,
+      alternatives,
+      method,
+      message: `Found ${alternatives.length} alternative route${alternatives.length === 1 ? '' : 's'}`,
+    };
+  }
+
+  /**
+   * Ask the routing provider for alternatives. Returns null when it can't produce them
+   * (no provider, waypoints, or a failed request), so the caller can fall back to via points.
+   */
+  private async fetchProviderAlternatives(
+    request: RouteRequest,
+    numAlternatives: number,
+    signal?: AbortSignal
+  ): Promise<NormalizedRoute[] | null> {
+    // Providers only compute alternatives between exactly two coordinates
+    const provider = this.provider;
+    if (!provider?.supportsAlternatives || request.waypoints?.length) {
+      return null;
+    }
+
+    const targetCount = Math.min(numAlternatives + 1, MAX_PROVIDER_ROUTES);
+    const language = this.getLanguage(request);
+    const cacheKey = cache.createKey(
+      'route',
+      'alternatives',
+      provider.name,
+      request.start.lat,
+      request.start.lng,
+      request.end.lat,
+      request.end.lng,
+      request.profile || 'driving',
+      targetCount,
+      language
+    );
+
+    // Failures are thrown out of the cache so the next request asks the provider again
+    try {
+      const routes = await cache.wrap(cacheKey, () => provider.route(
+        {
+          locations: [request.start, request.end],
+          profile: request.profile || 'driving',
+          language,
+          alternatives: targetCount - 1,
+        },
+        signal
+      ));
+      return routes.length > 0 ? routes : null;
+    } catch (error) {
+      if (isAbortError(error, signal)) {
+        throw error;
+      }
+      logger.error(`Failed to fetch alternative routes from ${provider.name}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Penalty-based alternatives: route through via points offset to either side of the main
+   * route's midpoint and keep the cheapest, where cost is duration scaled up by overlap.
+   */
+  private async fetchViaPointAlternatives(
+    request: RouteRequest,
+    numAlternatives: number,
+    signal?: AbortSignal
+  ): Promise<NormalizedRoute[]> {
+    const main = await this.fetchRoute(request, signal);
+    if (!main) {
+      throw new Error('Failed to generate route');
+    }
+
+    const mainLine = turf.lineString(main.coordinates);
+    const length = turf.length(mainLine, { units: 'meters' });
+    if (length === 0) {
+      return [main];
+    }
+
+    const midpoint = turf.along(mainLine, length / 2, { units: 'meters' });
+    const heading = turf.bearing(turf.point(main.coordinates[0]), turf.point(main.coordinates[main.coordinates.length - 1]));
+    const viaPoints = VIA_POINT_OFFSETS.flatMap(offset => [-90, 90].map(side => {
+      const [lng, lat] = turf.destination(midpoint, length * offset, heading + side, { units: 'meters' }).geometry.coordinates;
+      return { lat, lng };
+    }));
+
+    const detours = await Promise.all(viaPoints.map(via =>
+      this.fetchRoute({ ...request, waypoints: this.insertWaypoint(request, mainLine, length / 2, via) }, signal)
+    ));
+
+    const alternatives = detours
+      .filter((route): route is NormalizedRoute => route !== null)
+      .map(route => {
+        const overlap = this.calculateOverlap(turf.lineString(route.coordinates), mainLine);
+        return { route, overlap, cost: route.duration * (1 + OVERLAP_PENALTY * overlap) };
+      })
+      .filter(({ route, overlap }) =>
+        overlap <= MAX_SHARED_FRACTION && route.duration <= main.duration * MAX_DURATION_FACTOR
+      )
+      .sort((a, b) => a.cost - b.cost)
+      .slice(0, numAlternatives)
+      .map(({ route }) => route);
+
+    return [main, ...alternatives];
+  }
+
+  /**
+   * Insert a via point among the request's waypoints according to its position along the main route
+   */
+  private insertWaypoint(
+    request: RouteRequest,
+    mainLine: turf.Feature<turf.LineString>,
+    viaDistance: number,
+    via: Location
+  ): Location[] {
+    const waypoints = request.waypoints || [];
+    const index = waypoints.findIndex(wp => {
+      const along = turf.nearestPointOnLine(mainLine, turf.point([wp.lng, wp.lat]), { units: 'meters' });
+      return (along.properties.location ?? 0) > viaDistance;
+    });
+
+    return index === -1
+      ? [...waypoints, via]
+      : [...waypoints.slice(0, index), via, ...waypoints.slice(index)];
+  }
+
+  /**
+   * Share (0-1) of a route's length that lies within OVERLAP_TOLERANCE_METERS of a reference route,
+   * estimated from evenly spaced samples
+   */
+  private calculateOverlap(
+    route: turf.Feature<turf.LineString>,
+    reference: turf.Feature<turf.LineString>
+  ): number {
+    const length = turf.length(route, { units: 'meters' });
+    if (length === 0) {
+      return 1;
+    }
+
+    const samples = Math.min(200, Math.max(10, Math.ceil(length / 50)));
+    let shared = 0;
+    for (let i = 0; i <= samples; i++) {
+      const point = turf.along(route, (length * i) / samples, { units: 'meters' });
+      if (turf.pointToLineDistance(point, reference, { units: 'meters' }) <= OVERLAP_TOLERANCE_METERS) {
+        shared++;
+      }
+    }
+
+    return Math.round((shared / (samples + 1)) * 1000) / 1000;
+  }
+
+  /**
+   * Areas reachable from a location within each time (seconds) or distance (meters) range.
+   * Uses the provider's isochrones when it has them (OpenRouteService, offline graph), otherwise
+   * estimates circles from typical profile speeds.
+   */
+  public async getIsochrones(
+    request: ProviderIsochroneRequest,
+    options: OperationOptions = {}
+  ): Promise<IsochroneResult> {
+    const { signal } = options;
+    const ranges = Array.from(new Set(request.ranges)).sort((a, b) => a - b);
+    const provider = this.provider;
+
+    if (provider?.isochrones) {
+      const cacheKey = cache.createKey(
+        'isochrones',
+        provider.name,
+        request.location.lat,
+        request.location.lng,
+        request.profile,
+        request.rangeType,
+        ranges.join(',')
+      );
+
+      // Failures are thrown out of the cache so the next request asks the provider again
+      try {
+        const features = await cache.wrap(cacheKey, () => provider.isochrones!({ ...request, ranges }, signal));
+        if (features.length > 0) {
+          return { source: provider.name, features };
+        }
+      } catch (error) {
+        if (isAbortError(error, signal)) {
+          throw error;
+        }
+        logger.error(`Failed to fetch isochrones from ${provider.name}`, error);
+      }
+    }
+
+    logger.warn('Using estimated isochrones (circles at typical speeds)');
+    const center = turf.point([request.location.lng, request.location.lat]);
+    return {
+      source: 'estimate',
+      features: ranges.map((range): IsochroneFeature => {
+        const meters = request.rangeType === 'distance'
+          ? range
+          : (range * ESTIMATE_SPEEDS[request.profile]) / 3.6;
+        return {
+          type: 'Feature',
+          geometry: turf.circle(center, meters / DETOUR_FACTOR, { units: 'meters', steps: 32 }).geometry,
+          properties: { value: range, rangeType: request.rangeType },
+        };
+      }),
+    };
+  }
+
+  /**
+   * Reorder the waypoints (and the start or end unless fixed) to minimize total travel time,
+   * using the duration matrix between all stops, then generate the route in that order
+   */
+  public async optimizeTrip(
+    request: RouteRequest,
+    constraints: StopOrderConstraints,
+    options: OperationOptions = {}
+  ): Promise<OptimizedTripResponse> {
+    const { signal } = options;
+    const stops = [request.start, ...(request.waypoints || []), request.end];
+    const matrix = await this.getMatrix(
+      { sources: stops, destinations: stops, profile: request.profile || 'driving' },
+      { signal }
+    );
+
+    const original = stops.map((_, i) => i);
+    const originalDuration = tripDuration(matrix.durations, original);
+    let order = optimizeStopOrder(matrix.durations, constraints);
+    let optimizedDuration = tripDuration(matrix.durations, order);
+    if (optimizedDuration >= originalDuration) {
+      order = original;
+      optimizedDuration = originalDuration;
+    }
+
+    const visited = order.map(i => stops[i]);
+    const route = await this.generateRoute(
+      { ...request, start: visited[0], end: visited[visited.length - 1], waypoints: visited.slice(1, -1) },
+      options
+    );
+
+    const saved = Math.round(originalDuration) - Math.round(optimizedDuration);
+    return {
+      order,
+      matrixSource: matrix.source,
+      originalDuration: Math.round(originalDuration),
+      optimizedDuration: Math.round(optimizedDuration),
+      savings: {
+        duration: saved,
+        percentage: originalDuration > 0 ? Math.round((saved / originalDuration) * 1000) / 10 : 0,
+      },
+      route,
+      message: saved > 0
+        ? `Reordered ${stops.length} stops, saving about ${Math.round(saved / 60)} minutes`
+        : 'The requested order is already the fastest found',
+    };
+  }
+
+  /**
+   * Travel times and distances between every source and destination, without geometry or POI
+   * discovery. Provider results are cached per pair, so only sources and destinations with an
+   * uncached pair are sent to the provider.
+   */
+  public async getMatrix(
+    request: ProviderMatrixRequest,
+    options: OperationOptions = {}
+  ): Promise<RouteMatrixResult> {
+    const { signal } = options;
+    const { sources, destinations, profile } = request;
+    const provider = this.provider;
+
+    if (provider?.matrix) {
+      const pairKey = (from: Location, to: Location) =>
+        cache.createKey('matrix', provider.name, profile, from.lat, from.lng, to.lat, to.lng);
+      const cells = sources.map(from => destinations.map(to => cache.get<MatrixCell>(pairKey(from, to))));
+      const rows = sources.map((_, i) => i).filter(i => cells[i].some(cell => !cell));
+      const columns = destinations.map((_, j) => j).filter(j => rows.some(i => !cells[i][j]));
+
+      try {
+        if (rows.length > 0) {
+          const result = await provider.matrix!(
+            { sources: rows.map(i => sources[i]), destinations: columns.map(j => destinations[j]), profile },
+            signal
+          );
+          rows.forEach((i, r) => columns.forEach((j, c) => {
+            const cell = { duration: result.durations[r]?.[c] ?? null, distance: result.distances[r]?.[c] ?? null };
+            cells[i][j] = cell;
+            cache.set(pairKey(sources[i], destinations[j]), cell);
+          }));
+        }
+
+        return {
+          source: provider.name,
+          durations: cells.map(row => row.map(cell => cell!.duration)),
+          distances: cells.map(row => row.map(cell => cell!.distance)),
+        };
+      } catch (error) {
+        if (isAbortError(error, signal)) {
+          throw error;
+        }
+        logger.error(`Failed to fetch route matrix from ${provider.name}`, error);
+      }
+    }
+
+    logger.warn('Using estimated route matrix (straight lines at typical speeds)');
+    const speed = ESTIMATE_SPEEDS[profile] / 3.6;
+    const distances = sources.map(from => destinations.map(to => calculateDistance(from, to) * DETOUR_FACTOR));
+    return {
+      source: 'estimate',
+      durations: distances.map(row => row.map(distance => distance / speed)),
+      distances,
+    };
+  }
+
+  /**
+   * Pins and maneuvers coming up on a stored route. The position is snapped onto the route line,
+   * preferring passes at or after the last on-route progress so loops don't reset to the start,
+   * and the window runs from there for lookAheadDistance meters or lookAheadTime seconds of
+   * travel, whichever ends first (DEFAULT_LOOK_AHEAD_METERS when neither is given).
+   */
+  public getUpcoming(stored: StoredRoute, request: UpcomingRequest): UpcomingAlongRoute {
+    const timeline = new RouteTimeline(stored.response.route);
+    const snapped = timeline.snap(request.position, stored.lastDistanceAlong, OFF_ROUTE_METERS);
+    const from = snapped.distanceAlong;
+    const startTime = timeline.timeAt(from);
+
+    const limits = [timeline.length];
+    if (request.lookAheadDistance !== undefined || request.lookAheadTime === undefined) {
+      limits.push(from + (request.lookAheadDistance ?? DEFAULT_LOOK_AHEAD_METERS));
+    }
+    if (request.lookAheadTime !== undefined) {
+      limits.push(timeline.distanceAt(startTime + request.lookAheadTime));
+    }
+    const until = Math.min(...limits);
+    const ahead = (distance: number) => ({
+      distanceAhead: Math.round(distance - from),
+      timeAhead: Math.round(timeline.timeAt(distance) - startTime),
+    });
+
+    const pins = stored.pins
+      .filter(pin => pin.alongRoute.distanceAlong >= from && pin.alongRoute.distanceAlong <= until)
+      .sort((a, b) => a.alongRoute.distanceAlong - b.alongRoute.distanceAlong)
+      .slice(0, request.maxPins ?? DEFAULT_MAX_PINS)
+      .map(pin => ({ pin, ...ahead(pin.alongRoute.distanceAlong) }));
+    const maneuvers = (stored.response.route.maneuvers || [])
+      .filter(maneuver => {
+        const start = timeline.distances[maneuver.startIndex];
+        return start > from && start <= until;
+      })
+      .map(maneuver => ({ maneuver, ...ahead(timeline.distances[maneuver.startIndex]) }));
+
+    const offRoute = snapped.offset > OFF_ROUTE_METERS;
+    if (!offRoute) {
+      stored.lastDistanceAlong = from;
+    }
+    const window = Math.round(until - from);
+    return {
+      routeId: stored.response.routeId,
+      snappedPosition: snapped.location,
+      distanceFromRoute: Math.round(snapped.offset),
+      offRoute,
+      progress: {
+        distanceAlong: Math.round(from),
+        distanceRemaining: Math.round(timeline.length - from),
+        timeRemaining: Math.round(timeline.duration - startTime),
+        fraction: timeline.length > 0 ? Math.round((from / timeline.length) * 1000) / 1000 : 1,
+      },
+      lookAhead: {
+        distance: window,
+        time: Math.round(timeline.timeAt(until) - startTime),
+      },
+      pins,
+      maneuvers,
+      message: offRoute
+        ? `Position is ${Math.round(snapped.offset)} m from the route; progress is measured from the closest point on it`
+        : `${pins.length} pins and ${maneuvers.length} maneuvers in the next ${window} m`,
+    };
   }
 
   /**
    * Check if routing service is available
    */
   public isAvailable(): boolean {
-    return this.client !== null;
+    return this.provider !== null;
   }
 }
 
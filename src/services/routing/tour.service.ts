@@ -0,0 +1,247 @@
+import {
+  GeoPin,
+  ItineraryRequest,
+  ItinerarySchedule,
+  OperationOptions,
+  PinType,
+  TourPlan,
+  TourRequest,
+} from '../../types/index.js';
+import logger from '../logger.service.js';
+import osmService from '../enrichment/openstreetmap.service.js';
+import spatialIndex from '../spatial/spatial-index.service.js';
+import routingService, { ESTIMATE_SPEEDS } from './routing.service.js';
+import { optimizeStopOrder } from './trip-optimizer.js';
+import { scheduleStops } from './itinerary-scheduler.js';
+import { calculateDistance } from '../../utils/helpers.js';
+import { earliestVisitStart, parseOpeningHours } from '../../utils/opening-hours.js';
+
+// Minutes spent at a stop when the request gives none for its type
+export const DEFAULT_DWELL_MINUTES: Record<PinType, number> = {
+  poi: 10,
+  historical: 15,
+  landmark: 15,
+  event: 30,
+  cultural: 45,
+  natural: 20,
+};
+
+// Candidate stops per tour; the duration matrix grows with the square of this
+const MAX_CANDIDATES = 24;
+// Without a radius, stops are searched within the distance covered in this share of the budget
+const SEARCH_BUDGET_SHARE = 0.25;
+const MIN_SEARCH_RADIUS = 300;
+const MAX_SEARCH_RADIUS = 5000;
+// Longest a tour waits at a stop for it to open
+const TOUR_MAX_WAIT_MINUTES = 30;
+
+/**
+ * Minutes spent at a pin, from the requested dwell times or the typical visit for its type
+ */
+function dwellMinutes(pin: GeoPin, dwellTimes?: Partial<Record<PinType, number>>): number {
+  return dwellTimes?.[pin.type] ?? DEFAULT_DWELL_MINUTES[pin.type];
+}
+
+/**
+ * Time zone opening hours are read in when the request names none
+ */
+function defaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+class TourService {
+  private static instance: TourService;
+
+  private constructor() {
+    logger.info('Tour service initialized');
+  }
+
+  public static getInstance(): TourService {
+    if (!TourService.instance) {
+      TourService.instance = new TourService();
+    }
+    return TourService.instance;
+  }
+
+  /**
+   * Plan a loop from the start through interest-matching POIs that fits the time budget.
+   * Stops closed for the whole tour are left out; the rest are added by cheapest insertion
+   * (least extra travel plus dwell time) while the budget allows. The loop is reordered with
+   * 2-opt, visits are scheduled inside opening hours, then the loop is routed and enriched.
+   */
+  public async planTour(request: TourRequest, options: OperationOptions = {}): Promise<TourPlan> {
+    const { signal } = options;
+    const profile = request.profile || 'walking';
+    const budget = request.timeBudget * 60;
+    const startTime = request.startTime || new Date();
+    const timeZone = request.timeZone || defaultTimeZone();
+    const dwell = (pin: GeoPin) => dwellMinutes(pin, request.dwellTimes) * 60;
+
+    const candidates = (await this.findCandidates(request, profile, signal)).filter(pin => {
+      const hours = pin.data.visitingHours ? parseOpeningHours(pin.data.visitingHours) : null;
+      return !hours
+        || earliestVisitStart(hours, startTime.getTime(), dwell(pin) / 60, request.timeBudget, timeZone) !== null;
+    });
+    const stops = [request.start, ...candidates.map(pin => pin.location)];
+    const matrix = await routingService.getMatrix({ sources: stops, destinations: stops, profile }, { signal });
+    const travel = (from: number, to: number) => matrix.durations[from][to] ?? Infinity;
+
+    // Indices into stops; 0 is the start, at both ends of the loop
+    let tour = [0, 0];
+    let used = 0;
+    const remaining = new Set(candidates.map((_, i) => i + 1));
+    while (tour.length - 2 < (request.maxStops ?? MAX_CANDIDATES) && remaining.size > 0) {
+      let best: { stop: number; position: number; added: number } | null = null;
+      for (const stop of remaining) {
+        for (let position = 1; position < tour.length; position++) {
+          const before = tour[position - 1];
+          const after = tour[position];
+          const added = travel(before, stop) + travel(stop, after) - travel(before, after) + dwell(candidates[stop - 1]);
+          if (used + added <= budget && (!best || added < best.added)) {
+            best = { stop, position, added };
+          }
+        }
+      }
+      if (!best) {
+        break;
+      }
+      tour.splice(best.position, 0, best.stop);
+      used += best.added;
+      remaining.delete(best.stop);
+    }
+
+    if (tour.length > 3) {
+      const order = optimizeStopOrder(
+        tour.map(from => tour.map(to => matrix.durations[from][to])),
+        { fixedStart: true, fixedEnd: true }
+      );
+      tour = order.map(i => tour[i]);
+    }
+
+    const visited = tour.slice(0, -1);
+    const schedule = scheduleStops(
+      visited.map(from => visited.map(to => matrix.durations[from][to])),
+      visited.slice(1).map(stop => {
+        const pin = candidates[stop - 1];
+        return { pin, dwellMinutes: dwellMinutes(pin, request.dwellTimes) };
+      }),
+      { departure: startTime.getTime(), timeZone, maxWaitMinutes: TOUR_MAX_WAIT_MINUTES, end: 0 }
+    );
+
+    const totalMinutes = Math.round((schedule.end - startTime.getTime()) / 60000);
+    const warnings = [...schedule.warnings];
+    if (totalMinutes > request.timeBudget) {
+      warnings.push(`Waiting for stops to open makes the tour ${totalMinutes - request.timeBudget} minutes longer than the budget`);
+    }
+
+    const plan: TourPlan = {
+      start: request.start,
+      startTime: startTime.toISOString(),
+      endTime: new Date(schedule.end).toISOString(),
+      timeBudget: request.timeBudget,
+      travelMinutes: Math.round(schedule.travelSeconds / 60),
+      dwellMinutes: schedule.itinerary.reduce((sum, stop) => sum + stop.dwellMinutes, 0),
+      matrixSource: matrix.source,
+      itinerary: schedule.itinerary,
+      warnings,
+      message: '',
+    };
+
+    if (schedule.itinerary.length === 0) {
+      return { ...plan, message: 'No stops matching the interests fit in the time budget' };
+    }
+
+    const route = await routingService.generateRoute(
+      {
+        start: request.start,
+        end: request.start,
+        waypoints: schedule.itinerary.map(stop => stop.pin.location),
+        profile,
+        interests: request.interests,
+        language: request.language,
+      },
+      options
+    );
+
+    return {
+      ...plan,
+      route,
+      message: `Planned a ${totalMinutes} minute tour with ${schedule.itinerary.length} stops`,
+    };
+  }
+
+  /**
+   * Schedule visits to pins from a departure time so that each falls inside the pin's opening
+   * hours, reordering stops or skipping those that can't be fitted in
+   */
+  public async scheduleItinerary(request: ItineraryRequest, options: OperationOptions = {}): Promise<ItinerarySchedule> {
+    const { signal } = options;
+    const timeZone = request.timeZone || defaultTimeZone();
+    const locations = [request.start, ...request.stops.map(pin => pin.location), ...(request.end ? [request.end] : [])];
+    const matrix = await routingService.getMatrix(
+      { sources: locations, destinations: locations, profile: request.profile || 'walking' },
+      { signal }
+    );
+
+    const schedule = scheduleStops(
+      matrix.durations,
+      request.stops.map(pin => ({ pin, dwellMinutes: dwellMinutes(pin, request.dwellTimes) })),
+      {
+        departure: request.departureTime.getTime(),
+        timeZone,
+        maxWaitMinutes: request.maxWaitMinutes ?? TOUR_MAX_WAIT_MINUTES,
+        end: request.end ? locations.length - 1 : null,
+      }
+    );
+
+    return {
+      departureTime: request.departureTime.toISOString(),
+      endTime: new Date(schedule.end).toISOString(),
+      timeZone,
+      matrixSource: matrix.source,
+      reordered: schedule.reordered,
+      itinerary: schedule.itinerary,
+      skipped: schedule.skipped,
+      warnings: schedule.warnings,
+    };
+  }
+
+  /**
+   * Named POIs matching the interests around the start, nearest first and one per name
+   */
+  private async findCandidates(
+    request: TourRequest,
+    profile: NonNullable<TourRequest['profile']>,
+    signal?: AbortSignal
+  ): Promise<GeoPin[]> {
+    const radius = request.radius ?? Math.min(
+      MAX_SEARCH_RADIUS,
+      Math.max(MIN_SEARCH_RADIUS, (ESTIMATE_SPEEDS[profile] / 3.6) * request.timeBudget * 60 * SEARCH_BUDGET_SHARE)
+    );
+
+    const pins = await osmService.fetchPOIsNearLocation(request.start, Math.round(radius), request.interests, signal);
+    const names = new Set<string>();
+    const candidates = pins
+      .map(pin => ({ pin, distance: calculateDistance(request.start, pin.location) }))
+      .sort((a, b) => a.distance - b.distance)
+      .filter(({ pin }) => {
+        const name = pin.data.name.toLowerCase();
+        if (names.has(name)) {
+          return false;
+        }
+        names.add(name);
+        return true;
+      })
+      .slice(0, MAX_CANDIDATES)
+      .map(({ pin }) => pin);
+
+    candidates.forEach(pin => {
+      if (!spatialIndex.getPinById(pin.id)) {
+        spatialIndex.addPin(pin);
+      }
+    });
+    return candidates;
+  }
+}
+
+export default TourService.getInstance();
@@ -0,0 +1,110 @@
+// Stand-in travel time for pairs the matrix has no route for, so orders using them lose
+const UNREACHABLE_COST = 1e9;
+
+export interface StopOrderConstraints {
+  fixedStart: boolean; // Keep the first stop first
+  fixedEnd: boolean; // Keep the last stop last
+}
+
+const cost = (durations: Array<Array<number | null>>, from: number, to: number): number =>
+  durations[from][to] ?? UNREACHABLE_COST;
+
+/**
+ * Total travel time of visiting stops in the given order
+ */
+export function tripDuration(durations: Array<Array<number | null>>, order: number[]): number {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) {
+    total += cost(durations, order[i - 1], order[i]);
+  }
+  return total;
+}
+
+/**
+ * Greedy tour: from the first stop, always travel to the closest stop not yet visited
+ */
+function nearestNeighbour(durations: Array<Array<number | null>>, first: number, free: number[]): number[] {
+  const order = [first];
+  const remaining = new Set(free.filter(stop => stop !== first));
+
+  while (remaining.size > 0) {
+    const current = order[order.length - 1];
+    let next = -1;
+    remaining.forEach(stop => {
+      if (next === -1 || cost(durations, current, stop) < cost(durations, current, next)) {
+        next = stop;
+      }
+    });
+    order.push(next);
+    remaining.delete(next);
+  }
+
+  return order;
+}
+
+/**
+ * Improve an order by reversing segments while that shortens the trip (2-opt). Costs are
+ * recomputed in full because matrices can be asymmetric (oneway streets, hills).
+ */
+function twoOpt(durations: Array<Array<number | null>>, order: number[], from: number, to: number): number[] {
+  let best = order;
+  let bestCost = tripDuration(durations, order);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = from; i < to; i++) {
+      for (let k = i + 1; k <= to; k++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)];
+        const candidateCost = tripDuration(durations, candidate);
+        if (candidateCost < bestCost) {
+          best = candidate;
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Visiting order of stops (indices into a square duration matrix) minimizing total travel time:
+ * nearest-neighbour tours from every allowed first stop, each refined with 2-opt
+ */
+export function optimizeStopOrder(
+  durations: Array<Array<number | null>>,
+  constraints: StopOrderConstraints
+): number[] {
+  const count = durations.length;
+  if (count < 3) {
+    return durations.map((_, i) => i);
+  }
+
+  const last = count - 1;
+  const free = durations.map((_, i) => i).filter(i =>
+    !(constraints.fixedStart && i === 0) && !(constraints.fixedEnd && i === last)
+  );
+  const firsts = constraints.fixedStart ? [0] : free;
+
+  let best: number[] = [];
+  let bestCost = Infinity;
+  firsts.forEach(first => {
+    const tour = nearestNeighbour(durations, first, free);
+    const order = constraints.fixedEnd ? [...tour, last] : tour;
+    const refined = twoOpt(
+      durations,
+      order,
+      constraints.fixedStart ? 1 : 0,
+      constraints.fixedEnd ? count - 2 : count - 1
+    );
+    const refinedCost = tripDuration(durations, refined);
+    if (refinedCost < bestCost) {
+      best = refined;
+      bestCost = refinedCost;
+    }
+  });
+
+  return best;
+}
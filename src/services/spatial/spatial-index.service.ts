@@ -1,6 +1,6 @@
 import RBush from 'rbush';
 import * as turf from '@turf/turf';
-import { GeoPin, Location } from '../../types/index.js';
+import { GeoPin, Location, PinChangeEvent } from '../../types/index.js';
 import logger from '../logger.service.js';
 
 interface SpatialItem extends RBush.BBox {
@@ -15,10 +15,12 @@ class SpatialIndexService {
   private static instance: SpatialIndexService;
   private index: RBush<SpatialItem>;
   private pinMap: Map<string, GeoPin>;
+  private listeners: Set<(event: PinChangeEvent) => void>;
 
   private constructor() {
     this.index = new RBush<SpatialItem>();
     this.pinMap = new Map();
+    this.listeners = new Set();
     logger.info('Spatial index service initialized');
   }
 
@@ -30,30 +32,66 @@ class SpatialIndexService {
   }
 
   /**
-   * Add a pin to the spatial index
+   * Subscribe to pin additions, updates and removals. Returns an unsubscribe function.
+   */
+  public onChange(listener: (event: PinChangeEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify change listeners, isolating failures
+   */
+  private emitChange(event: PinChangeEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Pin change listener failed', error);
+      }
+    });
+  }
+
+  /**
+   * Build the R-tree entry for a pin based on its radius
+   */
+  private toSpatialItem(pin: GeoPin): SpatialItem {
+    const point = turf.point([pin.location.lng, pin.location.lat]);
+    const buffered = turf.buffer(point, pin.radius, { units: 'meters' });
+    const bbox = turf.bbox(buffered);
+
+    return {
+      minX: bbox[0],
+      minY: bbox[1],
+      maxX: bbox[2],
+      maxY: bbox[3],
+      pin,
+    };
+  }
+
+  /**
+   * Add a pin to the spatial index, replacing any existing pin with the same ID
    */
   public addPin(pin: GeoPin): void {
     try {
-      // Calculate bounding box for the pin based on its radius
-      const point = turf.point([pin.location.lng, pin.location.lat]);
-      const buffered = turf.buffer(point, pin.radius, { units: 'meters' });
-      const bbox = turf.bbox(buffered);
+      const spatialItem = this.toSpatialItem(pin);
+      const previous = this.pinMap.get(pin.id);
 
-      const spatialItem: SpatialItem = {
-        minX: bbox[0],
-        minY: bbox[1],
-        maxX: bbox[2],
-        maxY: bbox[3],
-        pin,
-      };
+      if (previous) {
+        this.index.remove(this.toSpatialItem(previous), (a, b) => a.pin.id === b.pin.id);
+      }
 
       this.index.insert(spatialItem);
       this.pinMap.set(pin.id, pin);
       
-      logger.debug(`Added pin ${pin.id} to spatial index`, {
+      logger.debug(`${previous ? 'Updated' : 'Added'} pin ${pin.id} in spatial index`, {
         location: pin.location,
         radius: pin.radius,
       });
+
+      this.emitChange(previous ? { type: 'updated', pin, previous } : { type: 'added', pin });
     } catch (error) {
       logger.error(`Failed to add pin to spatial index: ${pin.id}`, error);
     }
@@ -69,22 +107,11 @@ class SpatialIndexService {
     }
 
     try {
-      const point = turf.point([pin.location.lng, pin.location.lat]);
-      const buffered = turf.buffer(point, pin.radius, { units: 'meters' });
-      const bbox = turf.bbox(buffered);
-
-      const spatialItem: SpatialItem = {
-        minX: bbox[0],
-        minY: bbox[1],
-        maxX: bbox[2],
-        maxY: bbox[3],
-        pin,
-      };
-
-      this.index.remove(spatialItem, (a, b) => a.pin.id === b.pin.id);
+      this.index.remove(this.toSpatialItem(pin), (a, b) => a.pin.id === b.pin.id);
       this.pinMap.delete(pinId);
       
       logger.debug(`Removed pin ${pinId} from spatial index`);
+      this.emitChange({ type: 'removed', pin });
       return true;
     } catch (error) {
       logger.error(`Failed to remove pin from spatial index: ${pinId}`, error);
@@ -154,9 +181,9 @@ class SpatialIndexService {
   }
 
   /**
-   * Query pins that intersect with a polygon
+   * Query pins whose location lies inside a polygon or multipolygon
    */
-  public queryByPolygon(polygon: turf.Feature<turf.Polygon>): GeoPin[] {
+  public queryByPolygon(polygon: turf.Feature<turf.Polygon | turf.MultiPolygon>): GeoPin[] {
     try {
       const bbox = turf.bbox(polygon);
       const candidates = this.index.search({
@@ -183,9 +210,9 @@ class SpatialIndexService {
   }
 
   /**
-   * Get nearest K pins to a location
+   * Get nearest K pins to a location, optionally only those within maxDistanceMeters
    */
-  public getNearestPins(location: Location, k: number = 10): GeoPin[] {
+  public getNearestPins(location: Location, k: number = 10, maxDistanceMeters?: number): GeoPin[] {
     const allPins = Array.from(this.pinMap.values());
     const point = turf.point([location.lng, location.lat]);
 
@@ -198,8 +225,11 @@ class SpatialIndexService {
       ),
     }));
 
-    pinsWithDistance.sort((a, b) => a.distance - b.distance);
-    return pinsWithDistance.slice(0, k).map(item => item.pin);
+    return pinsWithDistance
+      .filter(item => maxDistanceMeters === undefined || item.distance <= maxDistanceMeters)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k)
+      .map(item => item.pin);
   }
 
   /**
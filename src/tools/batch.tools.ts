@@ -0,0 +1,55 @@
+import batchService from '../services/batch/batch.service.js';
+import { LocationResolver } from '../services/enrichment/location-resolver.js';
+import { defineTool } from './tool.registry.js';
+import { BatchContextSchema, BatchEnrichSchema, BatchRouteSchema } from './tool.schemas.js';
+
+export const batchGenerateRoutesTool = defineTool({
+  name: 'batch_generate_routes',
+  description: 'Generate multiple routes in a single batch request',
+  schema: BatchRouteSchema,
+  errorMessage: 'Failed to process batch routes',
+  handler: async (args, { progress, signal }) => {
+    const resolver = new LocationResolver(signal);
+    const requests = [];
+    for (const [i, request] of args.requests.entries()) {
+      requests.push(await resolver.resolveRoute(request, `requests[${i}].`));
+    }
+    return resolver.annotate(
+      await batchService.generateRouteBatch({ ...args, requests }, { onProgress: progress, signal })
+    );
+  },
+});
+
+export const batchEnrichLocationsTool = defineTool({
+  name: 'batch_enrich_locations',
+  description: 'Enrich multiple locations in a single batch request',
+  schema: BatchEnrichSchema,
+  errorMessage: 'Failed to process batch enrichment',
+  handler: async (args, { progress, signal }) => {
+    const resolver = new LocationResolver(signal);
+    const locations = [];
+    for (const [i, item] of args.locations.entries()) {
+      locations.push({ ...item, location: await resolver.resolve(`locations[${i}].location`, item.location) });
+    }
+    return resolver.annotate(
+      await batchService.enrichLocationBatch({ ...args, locations }, { onProgress: progress, signal })
+    );
+  },
+});
+
+export const batchGetNearbyContextTool = defineTool({
+  name: 'batch_get_nearby_context',
+  description: 'Get contextual information around multiple locations in a single batch request',
+  schema: BatchContextSchema,
+  errorMessage: 'Failed to process batch context queries',
+  handler: async (args, { progress, signal }) => {
+    const resolver = new LocationResolver(signal);
+    const queries = [];
+    for (const [i, query] of args.queries.entries()) {
+      queries.push({ ...query, location: await resolver.resolve(`queries[${i}].location`, query.location) });
+    }
+    return resolver.annotate(
+      await batchService.getNearbyContextBatch({ ...args, queries }, { onProgress: progress, signal })
+    );
+  },
+});
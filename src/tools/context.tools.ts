@@ -0,0 +1,103 @@
+import osmService from '../services/enrichment/openstreetmap.service.js';
+import spatialIndex from '../services/spatial/spatial-index.service.js';
+import { LocationResolver } from '../services/enrichment/location-resolver.js';
+import { loadResultSet, paginateByDistance, queryKeys } from '../utils/pagination.js';
+import { defineTool } from './tool.registry.js';
+import { EnrichLocationSchema, NearbyContextSchema } from './tool.schemas.js';
+
+export const getNearbyContextTool = defineTool({
+  name: 'get_nearby_context',
+  description: 'Get contextual information for a specific location, nearest first. Pass nextCursor back as cursor for the next page',
+  schema: NearbyContextSchema,
+  errorMessage: 'Failed to get nearby context',
+  handler: async (args, { signal }) => {
+    const resolver = new LocationResolver(signal);
+    const location = await resolver.resolve('location', args.location);
+
+    const queryIndex = () => {
+      const pins = spatialIndex.queryByRadius(location, args.radius);
+
+      // Filter by types if specified
+      return args.types && args.types.length > 0
+        ? pins.filter(pin => args.types!.includes(pin.type))
+        : pins;
+    };
+
+    // Query spatial index first
+    let pins = queryIndex();
+
+    // If not enough pins, fetch from OSM. Later pages only walk what the first page indexed.
+    if (!args.cursor && pins.length < args.maxResults) {
+      const osmPins = await osmService.fetchPOIsNearLocation(
+        location,
+        args.radius,
+        args.types,
+        signal
+      );
+
+      // Add new pins to spatial index
+      osmPins.forEach(pin => {
+        if (!spatialIndex.getPinById(pin.id)) {
+          spatialIndex.addPin(pin);
+        }
+      });
+      pins = queryIndex();
+    }
+
+    const page = paginateByDistance(pins, location, {
+      cursor: args.cursor,
+      limit: args.maxResults,
+      queryKey: queryKeys.nearby(location, args.radius, args.types),
+    });
+
+    return resolver.annotate({
+      location,
+      radius: args.radius,
+      totalPins: page.total,
+      pins: page.items,
+      nextCursor: page.nextCursor,
+    });
+  },
+});
+
+export const enrichLocationTool = defineTool({
+  name: 'enrich_location',
+  description: 'Enrich a location with data from OpenStreetMap. POIs are paged nearest first; pass nextCursor back as cursor for the next page',
+  schema: EnrichLocationSchema,
+  errorMessage: 'Failed to enrich location',
+  handler: async (args, { signal }) => {
+    const resolver = new LocationResolver(signal);
+    const location = await resolver.resolve('location', args.location);
+
+    // Fetch POIs from OpenStreetMap; later pages continue the first page's result set
+    const queryKey = queryKeys.enrich(location, args.radius);
+    const pins = await loadResultSet(queryKey, args.cursor, () =>
+      osmService.fetchPOIsNearLocation(location, args.radius, undefined, signal)
+    );
+
+    // Also get reverse geocoding information
+    const addressInfo = await osmService.reverseGeocode(location, signal);
+
+    // Add pins to spatial index
+    pins.forEach(pin => {
+      if (!spatialIndex.getPinById(pin.id)) {
+        spatialIndex.addPin(pin);
+      }
+    });
+
+    const page = paginateByDistance(pins, location, {
+      cursor: args.cursor,
+      limit: args.pageSize,
+      queryKey,
+    });
+
+    return resolver.annotate({
+      location,
+      address: addressInfo,
+      poisFound: pins.length,
+      pois: page.items,
+      nextCursor: page.nextCursor,
+      message: `Location enriched with ${pins.length} points of interest`,
+    });
+  },
+});
@@ -0,0 +1,29 @@
+import osmService from '../services/enrichment/openstreetmap.service.js';
+import { defineTool } from './tool.registry.js';
+import { GeocodePlaceSchema } from './tool.schemas.js';
+
+// Top candidates closer than this in confidence are reported as ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+
+export const geocodePlaceTool = defineTool({
+  name: 'geocode_place',
+  description: 'Resolve a place name or address to ranked candidate locations. Use countryCodes or viewbox to disambiguate common names',
+  schema: GeocodePlaceSchema,
+  errorMessage: 'Failed to geocode place',
+  handler: async ({ query, limit, countryCodes, viewbox, bounded }, { signal }) => {
+    const candidates = await osmService.geocodePlace(query, limit, {
+      countryCodes,
+      viewbox: viewbox && [viewbox.west, viewbox.south, viewbox.east, viewbox.north],
+      bounded,
+      signal,
+    });
+
+    return {
+      query,
+      totalCandidates: candidates.length,
+      ambiguous: candidates.length > 1 &&
+        candidates[0].confidence - candidates[1].confidence < AMBIGUITY_MARGIN,
+      candidates,
+    };
+  },
+});
@@ -0,0 +1,62 @@
+// Tool registry - every tool exposed by the server is registered here
+import { ToolRegistry } from './tool.registry.js';
+import {
+  generateRouteTool,
+  getAlternativeRoutesTool,
+  optimizeTripTool,
+  planTourTool,
+  scheduleItineraryTool,
+  upcomingAlongRouteTool,
+  getRouteMatrixTool,
+  getIsochronesTool,
+  exportRouteGeoJSONTool,
+} from './route.tools.js';
+import { getNearbyContextTool, enrichLocationTool } from './context.tools.js';
+import {
+  createGeoPinTool,
+  getGeoPinTool,
+  updateGeoPinTool,
+  deleteGeoPinTool,
+  listGeoPinsTool,
+} from './pin.tools.js';
+import {
+  queryPinsInPolygonTool,
+  queryPinsInBoundingBoxTool,
+  findNearestPinsTool,
+} from './spatial.tools.js';
+import { geocodePlaceTool } from './geocoding.tools.js';
+import {
+  batchGenerateRoutesTool,
+  batchEnrichLocationsTool,
+  batchGetNearbyContextTool,
+} from './batch.tools.js';
+import { getMetricsTool } from './system.tools.js';
+
+export { ToolRegistry, defineTool, createProgressReporter } from './tool.registry.js';
+
+export const toolRegistry = new ToolRegistry().register(
+  generateRouteTool,
+  getAlternativeRoutesTool,
+  optimizeTripTool,
+  planTourTool,
+  scheduleItineraryTool,
+  upcomingAlongRouteTool,
+  getRouteMatrixTool,
+  getIsochronesTool,
+  getNearbyContextTool,
+  createGeoPinTool,
+  getGeoPinTool,
+  updateGeoPinTool,
+  deleteGeoPinTool,
+  listGeoPinsTool,
+  queryPinsInPolygonTool,
+  queryPinsInBoundingBoxTool,
+  findNearestPinsTool,
+  enrichLocationTool,
+  geocodePlaceTool,
+  batchGenerateRoutesTool,
+  batchEnrichLocationsTool,
+  batchGetNearbyContextTool,
+  exportRouteGeoJSONTool,
+  getMetricsTool
+);
@@ -0,0 +1,138 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../services/logger.service.js';
+import spatialIndex from '../services/spatial/spatial-index.service.js';
+import { GeoPin } from '../types/index.js';
+import { generateId } from '../utils/helpers.js';
+import { createQueryKey, paginateByDistance } from '../utils/pagination.js';
+import { defineTool } from './tool.registry.js';
+import { GeoPinSchema, ListGeoPinsSchema, PinIdSchema, UpdateGeoPinSchema } from './tool.schemas.js';
+
+/**
+ * Look up a pin or fail with a not-found error
+ */
+export function requirePin(id: string): GeoPin {
+  const pin = spatialIndex.getPinById(id);
+  if (!pin) {
+    throw new McpError(ErrorCode.InvalidParams, `Pin not found: ${id}`);
+  }
+  return pin;
+}
+
+export const createGeoPinTool = defineTool({
+  name: 'create_geopin',
+  description: 'Create a custom geo-pin with contextual information',
+  schema: GeoPinSchema,
+  errorMessage: 'Failed to create geo-pin',
+  handler: async (args) => {
+    const pin: GeoPin = {
+      id: generateId('pin'),
+      location: args.location,
+      radius: args.radius,
+      type: args.type,
+      data: {
+        ...args.data,
+        category: args.data.category || [],
+      },
+      metadata: {
+        source: 'user_created',
+        lastUpdated: new Date(),
+        verificationStatus: 'unverified',
+        languages: ['en'],
+        tags: [],
+      },
+    };
+
+    // Add to spatial index
+    spatialIndex.addPin(pin);
+
+    logger.info(`Created geo-pin: ${pin.id}`);
+
+    return {
+      message: 'Geo-pin created successfully',
+      pin,
+    };
+  },
+});
+
+export const getGeoPinTool = defineTool({
+  name: 'get_geopin',
+  description: 'Get a geo-pin by ID',
+  schema: PinIdSchema,
+  errorMessage: 'Failed to get geo-pin',
+  handler: async ({ id }) => requirePin(id),
+});
+
+export const updateGeoPinTool = defineTool({
+  name: 'update_geopin',
+  description: 'Update fields of a geo-pin. Omitted fields are left unchanged',
+  schema: UpdateGeoPinSchema,
+  errorMessage: 'Failed to update geo-pin',
+  handler: async ({ id, location, radius, type, data }) => {
+    const previous = requirePin(id);
+    const pin: GeoPin = {
+      ...previous,
+      location: location || previous.location,
+      radius: radius ?? previous.radius,
+      type: type || previous.type,
+      data: { ...previous.data, ...data },
+      metadata: { ...previous.metadata, lastUpdated: new Date() },
+    };
+
+    // Re-adding under the same ID moves the R-tree entry if location or radius changed
+    spatialIndex.addPin(pin);
+
+    logger.info(`Updated geo-pin: ${id}`);
+
+    return {
+      message: 'Geo-pin updated successfully',
+      pin,
+    };
+  },
+});
+
+export const deleteGeoPinTool = defineTool({
+  name: 'delete_geopin',
+  description: 'Delete a geo-pin by ID',
+  schema: PinIdSchema,
+  errorMessage: 'Failed to delete geo-pin',
+  handler: async ({ id }) => {
+    const pin = requirePin(id);
+    if (!spatialIndex.removePin(id)) {
+      throw new Error(`Spatial index refused to remove pin ${id}`);
+    }
+
+    logger.info(`Deleted geo-pin: ${id}`);
+
+    return {
+      message: 'Geo-pin deleted successfully',
+      pin,
+    };
+  },
+});
+
+export const listGeoPinsTool = defineTool({
+  name: 'list_geopins',
+  description: 'List geo-pins ordered by ID, optionally filtered by type, source and verification status. Pass nextCursor back as cursor for the next page',
+  schema: ListGeoPinsSchema,
+  errorMessage: 'Failed to list geo-pins',
+  handler: async ({ type, source, verificationStatus, limit, cursor }) => {
+    const pins = spatialIndex.getAllPins().filter(pin =>
+      (!type || pin.type === type) &&
+      (!source || pin.metadata.source === source) &&
+      (!verificationStatus || pin.metadata.verificationStatus === verificationStatus)
+    );
+
+    const page = paginateByDistance(pins, null, {
+      cursor,
+      limit,
+      queryKey: createQueryKey('list_geopins', type, source, verificationStatus),
+    });
+
+    return {
+      filters: { type, source, verificationStatus },
+      totalPins: page.total,
+      pins: page.items,
+      nextCursor: page.nextCursor,
+    };
+  },
+});
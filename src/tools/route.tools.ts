@@ -0,0 +1,245 @@
+import * as turf from '@turf/turf';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import routingService from '../services/routing/routing.service.js';
+import routeStore, { StoredRoute } from '../services/routing/route-store.service.js';
+import tourService from '../services/routing/tour.service.js';
+import osmService from '../services/enrichment/openstreetmap.service.js';
+import spatialIndex from '../services/spatial/spatial-index.service.js';
+import { LocationResolver } from '../services/enrichment/location-resolver.js';
+import { exportRouteAsGeoJSON } from '../exporters/geojson.exporter.js';
+import { Location, RouteResponse } from '../types/index.js';
+import { IsochroneFeature } from '../types/routing.types.js';
+import { calculateDistance } from '../utils/helpers.js';
+import { defineTool } from './tool.registry.js';
+import { requirePin } from './pin.tools.js';
+import {
+  AlternativeRoutesSchema,
+  ExportRouteSchema,
+  IsochroneSchema,
+  OptimizeTripSchema,
+  PlanTourSchema,
+  RouteMatrixSchema,
+  RouteRequestSchema,
+  ScheduleItinerarySchema,
+  UpcomingAlongRouteSchema,
+} from './tool.schemas.js';
+
+// Overpass searches for isochrone pins are capped at this radius
+const MAX_ISOCHRONE_POI_RADIUS = 10000;
+
+/**
+ * Look up a stored route or fail with a not-found error
+ */
+function requireRoute(routeId: string): StoredRoute {
+  const stored = routeStore.get(routeId);
+  if (!stored) {
+    throw new McpError(ErrorCode.InvalidParams, `Route not found: ${routeId}`);
+  }
+  return stored;
+}
+
+/**
+ * Fetch OSM POIs covering an area and add them to the spatial index. Pin types aren't OSM
+ * interests, so the general POI tags are fetched and callers filter by type afterwards.
+ */
+async function indexPinsAround(center: Location, area: IsochroneFeature, signal: AbortSignal): Promise<void> {
+  const [west, south, east, north] = turf.bbox(area);
+  const radius = Math.max(
+    ...[[west, south], [west, north], [east, south], [east, north]]
+      .map(([lng, lat]) => calculateDistance(center, { lat, lng }))
+  );
+
+  const pins = await osmService.fetchPOIsNearLocation(
+    center,
+    Math.min(Math.ceil(radius), MAX_ISOCHRONE_POI_RADIUS),
+    undefined,
+    signal
+  );
+  pins.forEach(pin => {
+    if (!spatialIndex.getPinById(pin.id)) {
+      spatialIndex.addPin(pin);
+    }
+  });
+}
+
+export const generateRouteTool = defineTool({
+  name: 'generate_route',
+  description: 'Generate a navigation route between points and enrich with contextual data',
+  schema: RouteRequestSchema,
+  errorMessage: 'Failed to generate route',
+  handler: async (args, { progress, signal }) => {
+    const resolver = new LocationResolver(signal);
+    const request = await resolver.resolveRoute(args);
+    return resolver.annotate(await routingService.generateRoute(request, { onProgress: progress, signal }));
+  },
+});
+
+export const getAlternativeRoutesTool = defineTool({
+  name: 'get_alternative_routes',
+  description: 'Generate a route plus genuinely different alternatives, each with distance, duration, overlap with the main route and POIs for the given interests',
+  schema: AlternativeRoutesSchema,
+  errorMessage: 'Failed to generate alternative routes',
+  handler: async ({ alternatives, ...args }, { progress, signal }) => {
+    const resolver = new LocationResolver(signal);
+    const request = await resolver.resolveRoute(args);
+    return resolver.annotate(
+      await routingService.getAlternativeRoutes(request, alternatives, { onProgress: progress, signal })
+    );
+  },
+});
+
+export const optimizeTripTool = defineTool({
+  name: 'optimize_trip',
+  description: 'Reorder the waypoints of a multi-stop trip to minimize total travel time, then generate the route with contextual information in that order',
+  schema: OptimizeTripSchema,
+  errorMessage: 'Failed to optimize trip',
+  handler: async ({ fixedStart, fixedEnd, ...args }, { progress, signal }) => {
+    const resolver = new LocationResolver(signal);
+    const request = await resolver.resolveRoute(args);
+    return resolver.annotate(
+      await routingService.optimizeTrip(request, { fixedStart, fixedEnd }, { onProgress: progress, signal })
+    );
+  },
+});
+
+export const planTourTool = defineTool({
+  name: 'plan_tour',
+  description: 'Plan a loop tour from a start point through POIs matching the interests that fits a time budget, with an itinerary of arrival and departure times and the enriched route',
+  schema: PlanTourSchema,
+  errorMessage: 'Failed to plan tour',
+  handler: async ({ startTime, ...args }, { progress, signal }) => {
+    const resolver = new LocationResolver(signal);
+    const start = await resolver.resolve('start', args.start);
+    return resolver.annotate(
+      await tourService.planTour(
+        { ...args, start, startTime: startTime ? new Date(startTime) : undefined },
+        { onProgress: progress, signal }
+      )
+    );
+  },
+});
+
+export const scheduleItineraryTool = defineTool({
+  name: 'schedule_itinerary',
+  description: 'Schedule visits to pins from a departure time so each falls inside its opening hours, reordering or skipping stops as needed, with arrival, wait, dwell and departure times',
+  schema: ScheduleItinerarySchema,
+  errorMessage: 'Failed to schedule itinerary',
+  handler: async ({ pinIds, departureTime, ...args }, { signal }) => {
+    const stops = pinIds.map(requirePin);
+    const resolver = new LocationResolver(signal);
+    const start = await resolver.resolve('start', args.start);
+    const end = args.end ? await resolver.resolve('end', args.end) : undefined;
+
+    return resolver.annotate(
+      await tourService.scheduleItinerary(
+        { ...args, start, end, stops, departureTime: new Date(departureTime) },
+        { signal }
+      )
+    );
+  },
+});
+
+export const getRouteMatrixTool = defineTool({
+  name: 'get_route_matrix',
+  description: 'Get travel times (seconds) and distances (meters) between every origin and destination, without route geometry or POI discovery',
+  schema: RouteMatrixSchema,
+  errorMessage: 'Failed to get route matrix',
+  handler: async (args, { signal }) => {
+    const resolver = new LocationResolver(signal);
+    const origins = await Promise.all(args.origins.map((origin, i) => resolver.resolve(`origins[${i}]`, origin)));
+    const destinations = await Promise.all(
+      args.destinations.map((destination, i) => resolver.resolve(`destinations[${i}]`, destination))
+    );
+
+    const matrix = await routingService.getMatrix(
+      { sources: origins, destinations, profile: args.profile },
+      { signal }
+    );
+    const round = (rows: Array<Array<number | null>>) =>
+      rows.map(row => row.map(value => (value === null ? null : Math.round(value))));
+
+    return resolver.annotate({
+      profile: args.profile,
+      source: matrix.source,
+      origins,
+      destinations,
+      durations: round(matrix.durations),
+      distances: round(matrix.distances),
+    });
+  },
+});
+
+export const getIsochronesTool = defineTool({
+  name: 'get_isochrones',
+  description: 'Get the areas reachable from a location within travel times or distances as GeoJSON polygons, optionally listing the pins inside each',
+  schema: IsochroneSchema,
+  errorMessage: 'Failed to get isochrones',
+  handler: async (args, { signal }) => {
+    const resolver = new LocationResolver(signal);
+    const location = await resolver.resolve('location', args.location);
+    const perMinute = args.rangeType === 'time' ? 60 : 1;
+
+    const result = await routingService.getIsochrones(
+      {
+        location,
+        profile: args.profile,
+        rangeType: args.rangeType,
+        ranges: args.ranges.map(range => range * perMinute),
+      },
+      { signal }
+    );
+
+    // Areas are nested, so POIs for the largest one cover them all
+    if (args.includePins && result.features.length > 0) {
+      await indexPinsAround(location, result.features[result.features.length - 1], signal);
+    }
+
+    const features = result.features.map(feature => {
+      const properties: Record<string, unknown> = {
+        value: feature.properties.value / perMinute,
+        unit: args.rangeType === 'time' ? 'minutes' : 'meters',
+        area: Math.round(turf.area(feature)), // square meters
+      };
+
+      if (args.includePins) {
+        const pins = spatialIndex.queryByPolygon(feature)
+          .filter(pin => !args.types?.length || args.types.includes(pin.type))
+          .map(pin => ({ pin, distance: calculateDistance(location, pin.location) }))
+          .sort((a, b) => a.distance - b.distance);
+        properties.pinCount = pins.length;
+        properties.pins = pins.slice(0, args.maxPins).map(({ pin }) => pin);
+      }
+
+      return { ...feature, properties };
+    });
+
+    return resolver.annotate({
+      location,
+      profile: args.profile,
+      rangeType: args.rangeType,
+      source: result.source,
+      isochrones: { type: 'FeatureCollection', features },
+    });
+  },
+});
+
+export const upcomingAlongRouteTool = defineTool({
+  name: 'upcoming_along_route',
+  description: 'Snap the current position onto a stored route and list the pins and maneuvers coming up within a look-ahead distance or travel time, with progress along the route',
+  schema: UpcomingAlongRouteSchema,
+  errorMessage: 'Failed to look ahead along route',
+  handler: async ({ routeId, ...request }) => routingService.getUpcoming(requireRoute(routeId), request),
+});
+
+export const exportRouteGeoJSONTool = defineTool({
+  name: 'export_route_geojson',
+  description: 'Export a route as GeoJSON FeatureCollection',
+  schema: ExportRouteSchema,
+  errorMessage: 'Failed to export route as GeoJSON',
+  middleware: false,
+  handler: async ({ routeData, includeProperties, simplified }) =>
+    exportRouteAsGeoJSON(routeData as RouteResponse, {
+      includeProperties,
+      simplified,
+    }),
+});
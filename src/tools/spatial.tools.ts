@@ -0,0 +1,100 @@
+import * as turf from '@turf/turf';
+import spatialIndex from '../services/spatial/spatial-index.service.js';
+import { GeoPin, Location, PinMatch } from '../types/index.js';
+import { calculateBearing, calculateDistance, splitBoundingBox } from '../utils/helpers.js';
+import { createQueryKey, paginateByDistance } from '../utils/pagination.js';
+import { defineTool } from './tool.registry.js';
+import { BoundingBoxQuerySchema, NearestPinsSchema, PolygonQuerySchema } from './tool.schemas.js';
+
+/**
+ * Annotate a pin with its distance and bearing from the query origin
+ */
+function toMatch(origin: Location, pin: GeoPin): PinMatch {
+  return {
+    pin,
+    distance: calculateDistance(origin, pin.location),
+    bearing: calculateBearing(origin, pin.location),
+  };
+}
+
+/**
+ * Center of a bounding box, handling boxes that cross the antimeridian
+ */
+function boundingBoxCenter(west: number, south: number, east: number, north: number): Location {
+  let lng = west <= east ? (west + east) / 2 : (west + east + 360) / 2;
+  if (lng > 180) {
+    lng -= 360;
+  }
+  return { lat: (south + north) / 2, lng };
+}
+
+export const queryPinsInPolygonTool = defineTool({
+  name: 'query_pins_in_polygon',
+  description: 'Find pins inside a GeoJSON Polygon or MultiPolygon, nearest to the origin first, with distance and bearing',
+  schema: PolygonQuerySchema,
+  errorMessage: 'Failed to query pins in polygon',
+  handler: async ({ polygon, origin, maxResults, cursor }) => {
+    const geometry = polygon.type === 'Feature' ? polygon.geometry : polygon;
+    const feature = turf.feature(geometry as turf.Polygon | turf.MultiPolygon);
+    const [lng, lat] = turf.centroid(feature).geometry.coordinates;
+    const from = origin || { lat, lng };
+
+    const page = paginateByDistance(spatialIndex.queryByPolygon(feature), from, {
+      cursor,
+      limit: maxResults,
+      queryKey: createQueryKey('polygon', geometry, from),
+    });
+
+    return {
+      origin: from,
+      totalPins: page.total,
+      pins: page.items.map(pin => toMatch(from, pin)),
+      nextCursor: page.nextCursor,
+    };
+  },
+});
+
+export const queryPinsInBoundingBoxTool = defineTool({
+  name: 'query_pins_in_bbox',
+  description: 'Find pins intersecting a bounding box, nearest to the origin first, with distance and bearing',
+  schema: BoundingBoxQuerySchema,
+  errorMessage: 'Failed to query pins in bounding box',
+  handler: async ({ west, south, east, north, origin, maxResults, cursor }) => {
+    const pins = splitBoundingBox([west, south, east, north])
+      .flatMap(half => spatialIndex.queryByBoundingBox(...half));
+    const unique = Array.from(new Map(pins.map(pin => [pin.id, pin])).values());
+    const from = origin || boundingBoxCenter(west, south, east, north);
+
+    const page = paginateByDistance(unique, from, {
+      cursor,
+      limit: maxResults,
+      queryKey: createQueryKey('bbox', west, south, east, north, from),
+    });
+
+    return {
+      bbox: [west, south, east, north],
+      origin: from,
+      totalPins: page.total,
+      pins: page.items.map(pin => toMatch(from, pin)),
+      nextCursor: page.nextCursor,
+    };
+  },
+});
+
+export const findNearestPinsTool = defineTool({
+  name: 'find_nearest_pins',
+  description: 'Find the k pins nearest to a location, optionally within a maximum distance, with distance and bearing',
+  schema: NearestPinsSchema,
+  errorMessage: 'Failed to find nearest pins',
+  handler: async ({ location, k, maxDistance }) => {
+    const pins = spatialIndex.getNearestPins(location, k, maxDistance);
+
+    return {
+      location,
+      k,
+      maxDistance,
+      totalPins: pins.length,
+      pins: pins.map(pin => toMatch(location, pin)),
+    };
+  },
+});
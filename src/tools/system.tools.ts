@@ -0,0 +1,22 @@
+import cache from '../services/cache/cache.service.js';
+import spatialIndex from '../services/spatial/spatial-index.service.js';
+import webhookService from '../services/webhooks/webhook.service.js';
+import { metricsService, rateLimiter } from '../middleware/index.js';
+import { defineTool } from './tool.registry.js';
+import { EmptySchema } from './tool.schemas.js';
+
+export const getMetricsTool = defineTool({
+  name: 'get_metrics',
+  description: 'Get server metrics and statistics',
+  schema: EmptySchema,
+  errorMessage: 'Failed to get metrics',
+  middleware: false,
+  handler: async () => ({
+    tools: metricsService.getAllMetrics(),
+    summary: metricsService.getSummary(),
+    rateLimiter: rateLimiter.getStats(),
+    cache: cache.getStats(),
+    spatialIndex: spatialIndex.getStats(),
+    webhooks: webhookService.getStats(),
+  }),
+});
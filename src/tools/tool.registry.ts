@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { McpError, ErrorCode, ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { composeMiddleware, validateToolInput } from '../middleware/index.js';
+import logger from '../services/logger.service.js';
+import { ProgressCallback, ProgressUpdate } from '../types/index.js';
+import { ToolContext, ToolDefinition, ToolListing } from '../types/tool.types.js';
+
+/**
+ * Helper preserving the schema type so handlers receive typed arguments
+ */
+export function defineTool<TSchema extends z.ZodTypeAny>(
+  definition: ToolDefinition<TSchema>
+): ToolDefinition<TSchema> {
+  return definition;
+}
+
+/**
+ * Format a handler result as MCP tool content
+ */
+function toToolResult(data: unknown) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Format a progress update as a human readable message
+ */
+function formatProgressMessage(update: ProgressUpdate): string {
+  const parts = [
+    update.total !== undefined ? `${update.completed}/${update.total} completed` : `${update.completed} completed`,
+  ];
+  if (update.failed) {
+    parts.push(`${update.failed} failed`);
+  }
+  return update.phase ? `${update.phase}: ${parts.join(', ')}` : parts.join(', ');
+}
+
+/**
+ * Create a progress callback that emits notifications/progress for the given token.
+ * Returns a no-op when the caller did not ask for progress.
+ */
+export function createProgressReporter(
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ProgressCallback {
+  if (progressToken === undefined) {
+    return () => undefined;
+  }
+
+  let lastProgress = -1;
+  return (update: ProgressUpdate) => {
+    const progress = update.completed + (update.failed || 0);
+    if (progress <= lastProgress) {
+      return; // Progress must strictly increase
+    }
+    lastProgress = progress;
+
+    sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        total: update.total,
+        message: formatProgressMessage(update),
+      },
+    }).catch(error => logger.error('Failed to send progress notification', error));
+  };
+}
+
+/**
+ * Registry of tool definitions. ListTools and CallTool are both generated from it.
+ */
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition<any>> = new Map();
+  private dispatchers: Map<string, (args: unknown, context: ToolContext) => Promise<ReturnType<typeof toToolResult>>> = new Map();
+
+  /**
+   * Register a tool definition
+   */
+  public register(...definitions: ToolDefinition<any>[]): this {
+    definitions.forEach(definition => {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool already registered: ${definition.name}`);
+      }
+      this.tools.set(definition.name, definition);
+      this.dispatchers.set(definition.name, this.createDispatcher(definition));
+    });
+    return this;
+  }
+
+  /**
+   * Get a tool definition by name
+   */
+  public get(name: string): ToolDefinition<any> | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Check if a tool is registered
+   */
+  public has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * List tools in ListTools format, with JSON Schema generated from zod
+   */
+  public list(): ToolListing[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: this.toInputSchema(tool.schema),
+    }));
+  }
+
+  /**
+   * Dispatch a tool call
+   */
+  public async call(name: string, args: unknown, context: Partial<ToolContext> = {}) {
+    const dispatch = this.dispatchers.get(name);
+    if (!dispatch) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+    return dispatch(args ?? {}, {
+      progress: context.progress || (() => undefined),
+      signal: context.signal || new AbortController().signal,
+    });
+  }
+
+  private createDispatcher(tool: ToolDefinition<any>) {
+    const execute = async (args: any, context: ToolContext) => {
+      try {
+        return toToolResult(await tool.handler(args, context));
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `${tool.errorMessage}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    };
+
+    if (tool.middleware === false) {
+      return async (args: unknown, context: ToolContext) =>
+        execute(validateToolInput(tool.name, args, tool.schema), context);
+    }
+
+    return composeMiddleware(tool.name, execute, { schema: tool.schema });
+  }
+
+  private toInputSchema(schema: z.ZodTypeAny): ToolListing['inputSchema'] {
+    // Cast avoids deep type instantiation on complex schemas
+    const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema as any, {
+      $refStrategy: 'none',
+      target: 'jsonSchema7',
+    }) as Record<string, unknown>;
+
+    return {
+      ...jsonSchema,
+      type: 'object',
+    };
+  }
+}
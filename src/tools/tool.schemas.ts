@@ -0,0 +1,308 @@
+import { z } from 'zod';
+
+// Shared zod schemas for tool inputs. These are the single source of truth for
+// both runtime validation and the JSON Schema advertised through ListTools.
+
+export const PIN_TYPES = ['poi', 'historical', 'landmark', 'event', 'cultural', 'natural'] as const;
+export const TRAVEL_PROFILES = ['driving', 'walking', 'cycling', 'wheelchair'] as const;
+const PIN_RANKINGS = ['balanced', 'relevance', 'detour'] as const;
+// Instruction languages supported by OpenRouteService
+export const ROUTING_LANGUAGES = [
+  'cs', 'da', 'de', 'en', 'eo', 'es', 'fi', 'fr', 'gr', 'he', 'hu', 'id', 'it',
+  'ja', 'nb', 'ne', 'nl', 'pl', 'pt', 'ro', 'ru', 'tr', 'ua', 'vi', 'zh',
+] as const;
+export const VERIFICATION_STATUSES = ['verified', 'unverified', 'crowdsourced'] as const;
+
+export const LocationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const AddressSchema = z.object({
+  street: z.string().optional().describe('House number and street'),
+  city: z.string().optional(),
+  county: z.string().optional(),
+  state: z.string().optional(),
+  postcode: z.string().optional(),
+  country: z.string().optional(),
+}).refine(address => Object.values(address).some(value => value && value.trim().length > 0), {
+  message: 'Address needs at least one non-empty field',
+});
+
+// Coordinates, or a place name / address resolved server-side with the geocoder
+export const LocationInputSchema = z.union([
+  LocationSchema,
+  z.string().trim().min(1).max(500).describe('Place name or free-text address, e.g. "Eiffel Tower, Paris"'),
+  AddressSchema,
+]);
+
+export const PinTypeSchema = z.enum(PIN_TYPES);
+
+const CursorSchema = z.string().optional()
+  .describe('nextCursor from a previous page; omit for the first page');
+
+export const RouteRequestSchema = z.object({
+  start: LocationInputSchema,
+  end: LocationInputSchema,
+  waypoints: z.array(LocationInputSchema).optional(),
+  profile: z.enum(TRAVEL_PROFILES).default('driving'),
+  interests: z.array(z.string()).optional()
+    .describe('User interests for POI filtering (e.g., "history", "architecture", "nature")'),
+  bufferRadius: z.number().min(50).max(5000).default(500)
+    .describe('Radius in meters around route to search for POIs'),
+  language: z.enum(ROUTING_LANGUAGES).optional()
+    .describe('Language for turn-by-turn instructions (defaults to the server ROUTING_LANGUAGE)'),
+  maxPins: z.number().int().min(1).max(100).default(20)
+    .describe('Number of POIs to return with the route, in travel order'),
+  pinRanking: z.enum(PIN_RANKINGS).default('balanced')
+    .describe('Which POIs to return: best interest match (relevance), shortest detour (detour) or both (balanced)'),
+});
+
+export const AlternativeRoutesSchema = RouteRequestSchema.extend({
+  alternatives: z.number().int().min(1).max(3).default(2).describe('Number of alternatives besides the main route'),
+});
+
+export const OptimizeTripSchema = RouteRequestSchema.extend({
+  waypoints: z.array(LocationInputSchema).min(1).max(23).describe('Stops to visit, in any order'),
+  fixedStart: z.boolean().default(true).describe('Keep start as the first stop'),
+  fixedEnd: z.boolean().default(true).describe('Keep end as the last stop'),
+});
+
+const TimeZoneSchema = z.string()
+  .refine(zone => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: 'Unknown time zone' })
+  .describe('IANA time zone opening hours are read in, e.g. "Europe/Paris" (defaults to the server\'s)');
+
+const DwellTimesSchema = z.record(PinTypeSchema, z.number().min(0).max(240))
+  .describe('Minutes spent per stop type, e.g. { "cultural": 60 }; others use typical visit lengths');
+
+export const PlanTourSchema = z.object({
+  start: LocationInputSchema.describe('Where the tour starts and ends'),
+  profile: z.enum(TRAVEL_PROFILES).default('walking'),
+  interests: z.array(z.string()).optional()
+    .describe('User interests for choosing stops (e.g., "history", "architecture", "nature")'),
+  timeBudget: z.number().min(15).max(720).describe('Total tour time in minutes, travel and stops included'),
+  dwellTimes: DwellTimesSchema.optional(),
+  startTime: z.string().datetime({ offset: true }).optional().describe('ISO 8601 start time, defaults to now'),
+  timeZone: TimeZoneSchema.optional(),
+  maxStops: z.number().int().min(1).max(15).default(8),
+  radius: z.number().min(100).max(10000).optional()
+    .describe('Meters around the start to search for stops (defaults to what the budget allows)'),
+  language: z.enum(ROUTING_LANGUAGES).optional()
+    .describe('Language for turn-by-turn instructions (defaults to the server ROUTING_LANGUAGE)'),
+});
+
+export const ScheduleItinerarySchema = z.object({
+  start: LocationInputSchema,
+  end: LocationInputSchema.optional().describe('Where the day ends; defaults to the last stop'),
+  pinIds: z.array(z.string()).min(1).max(23).describe('Pins to visit, in the preferred order'),
+  departureTime: z.string().datetime({ offset: true }).describe('ISO 8601 departure time from start'),
+  timeZone: TimeZoneSchema.optional(),
+  profile: z.enum(TRAVEL_PROFILES).default('walking'),
+  dwellTimes: DwellTimesSchema.optional(),
+  maxWaitMinutes: z.number().min(0).max(240).default(30).describe('Longest wait at a stop for it to open'),
+});
+
+export const RouteMatrixSchema = z.object({
+  origins: z.array(LocationInputSchema).min(1).max(25),
+  destinations: z.array(LocationInputSchema).min(1).max(25),
+  profile: z.enum(TRAVEL_PROFILES).default('driving'),
+});
+
+// Largest isochrone ranges accepted, in minutes or meters
+const MAX_ISOCHRONE_MINUTES = 60;
+const MAX_ISOCHRONE_METERS = 50000;
+
+export const IsochroneSchema = z.object({
+  location: LocationInputSchema,
+  profile: z.enum(TRAVEL_PROFILES).default('walking'),
+  rangeType: z.enum(['time', 'distance']).default('time')
+    .describe('Limit by travel time (ranges in minutes) or travel distance (ranges in meters)'),
+  ranges: z.array(z.number().positive()).min(1).max(10)
+    .describe('Limits to compute, e.g. [5, 10, 15] minutes or [500, 1000] meters'),
+  includePins: z.boolean().default(false)
+    .describe('List pins inside each area, fetching OpenStreetMap POIs for the area first'),
+  types: z.array(PinTypeSchema).optional().describe('Only list pins of these types'),
+  maxPins: z.number().int().min(1).max(200).default(50).describe('Maximum pins listed per area'),
+}).refine(
+  args => Math.max(...args.ranges) <= (args.rangeType === 'time' ? MAX_ISOCHRONE_MINUTES : MAX_ISOCHRONE_METERS),
+  {
+    message: `Ranges are limited to ${MAX_ISOCHRONE_MINUTES} minutes or ${MAX_ISOCHRONE_METERS} meters`,
+    path: ['ranges'],
+  }
+);
+
+export const NearbyContextSchema = z.object({
+  location: LocationInputSchema,
+  radius: z.number().min(10).max(10000).default(1000).describe('Search radius in meters'),
+  types: z.array(PinTypeSchema).optional(),
+  maxResults: z.number().min(1).max(200).default(50).describe('Page size'),
+  cursor: CursorSchema,
+});
+
+export const GeoPinSchema = z.object({
+  location: LocationSchema,
+  radius: z.number().min(10).max(5000).default(100),
+  type: PinTypeSchema,
+  data: z.object({
+    name: z.string().min(1).max(200),
+    description: z.string().min(1).max(2000),
+    category: z.array(z.string()).optional(),
+  }),
+});
+
+export const PinIdSchema = z.object({
+  id: z.string().min(1).describe('Pin ID as returned by create_geopin or a query'),
+});
+
+export const UpdateGeoPinSchema = z.object({
+  id: PinIdSchema.shape.id,
+  location: LocationSchema.optional(),
+  radius: z.number().min(10).max(5000).optional(),
+  type: PinTypeSchema.optional(),
+  data: GeoPinSchema.shape.data.partial().optional()
+    .describe('Fields to change; omitted fields keep their current value'),
+}).refine(
+  ({ location, radius, type, data }) => location || radius !== undefined || type || data,
+  { message: 'Provide at least one of location, radius, type or data to update' }
+);
+
+export const ListGeoPinsSchema = z.object({
+  type: PinTypeSchema.optional(),
+  source: z.string().optional().describe('e.g. "user_created" or "openstreetmap"'),
+  verificationStatus: z.enum(VERIFICATION_STATUSES).optional(),
+  limit: z.number().int().min(1).max(200).default(50).describe('Page size'),
+  cursor: CursorSchema,
+});
+
+// GeoJSON positions are [lng, lat] with optional altitude
+const PositionSchema = z.tuple([
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90),
+]).rest(z.number());
+
+const LinearRingSchema = z.array(PositionSchema).min(4).refine(
+  ring => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+  { message: 'Polygon rings must be closed (first and last positions equal)' }
+);
+
+const PolygonGeometrySchema = z.object({
+  type: z.literal('Polygon'),
+  coordinates: z.array(LinearRingSchema).min(1),
+});
+
+const MultiPolygonGeometrySchema = z.object({
+  type: z.literal('MultiPolygon'),
+  coordinates: z.array(z.array(LinearRingSchema).min(1)).min(1),
+});
+
+const AreaGeometrySchema = z.discriminatedUnion('type', [PolygonGeometrySchema, MultiPolygonGeometrySchema]);
+
+const SpatialPageSchema = z.object({
+  maxResults: z.number().int().min(1).max(500).default(100).describe('Page size'),
+  cursor: CursorSchema,
+});
+
+export const PolygonQuerySchema = SpatialPageSchema.extend({
+  polygon: z.union([
+    AreaGeometrySchema,
+    z.object({
+      type: z.literal('Feature'),
+      geometry: AreaGeometrySchema,
+      properties: z.record(z.any()).nullable().optional(),
+    }),
+  ]).describe('GeoJSON Polygon or MultiPolygon, bare or wrapped in a Feature'),
+  origin: LocationSchema.optional()
+    .describe('Point to measure distance and bearing from (defaults to the polygon centroid)'),
+});
+
+export const BoundingBoxQuerySchema = SpatialPageSchema.extend({
+  west: z.number().min(-180).max(180),
+  south: z.number().min(-90).max(90),
+  east: z.number().min(-180).max(180).describe('May be less than west for boxes crossing the antimeridian'),
+  north: z.number().min(-90).max(90),
+  origin: LocationSchema.optional()
+    .describe('Point to measure distance and bearing from (defaults to the box center)'),
+}).refine(({ south, north }) => south <= north, { message: 'south must not exceed north' });
+
+export const NearestPinsSchema = z.object({
+  location: LocationSchema,
+  k: z.number().int().min(1).max(100).default(10).describe('Number of pins to return'),
+  maxDistance: z.number().min(1).optional().describe('Only include pins within this many meters'),
+});
+
+export const GeocodePlaceSchema = z.object({
+  query: z.string().trim().min(1).max(500).describe('Place name or address, e.g. "Springfield, Illinois"'),
+  limit: z.number().int().min(1).max(20).default(5).describe('Maximum number of candidates'),
+  countryCodes: z.array(z.string().regex(/^[A-Za-z]{2}$/)).max(10).optional()
+    .describe('Restrict results to these ISO 3166-1 alpha-2 country codes, e.g. ["us"]'),
+  viewbox: z.object({
+    west: z.number().min(-180).max(180),
+    south: z.number().min(-90).max(90),
+    east: z.number().min(-180).max(180),
+    north: z.number().min(-90).max(90),
+  }).optional().describe('Preferred area; candidates inside it rank higher'),
+  bounded: z.boolean().default(false).describe('Only return candidates inside the viewbox'),
+}).refine(({ bounded, viewbox }) => !bounded || viewbox, {
+  message: 'bounded requires a viewbox',
+  path: ['bounded'],
+});
+
+export const EnrichLocationSchema = z.object({
+  location: LocationInputSchema,
+  radius: z.number().min(10).max(5000).default(500).describe('Search radius in meters'),
+  pageSize: z.number().int().min(1).max(100).default(20).describe('Number of POIs per page'),
+  cursor: CursorSchema,
+});
+
+const BatchOptionsSchema = z.object({
+  failFast: z.boolean().default(false).describe('Stop on first error'),
+  maxConcurrency: z.number().int().min(1).max(20).optional().describe('Override default concurrency'),
+}).optional();
+
+export const BatchRouteSchema = z.object({
+  requests: z.array(RouteRequestSchema).min(1).max(100),
+  options: BatchOptionsSchema,
+});
+
+export const BatchEnrichSchema = z.object({
+  locations: z.array(z.object({
+    location: LocationInputSchema,
+    radius: z.number().min(10).max(5000).optional(),
+  })).min(1).max(100),
+  options: BatchOptionsSchema,
+});
+
+export const BatchContextSchema = z.object({
+  queries: z.array(z.object({
+    location: LocationInputSchema,
+    radius: z.number().min(10).max(10000).optional().describe('Search radius in meters (default 1000)'),
+    types: z.array(PinTypeSchema).optional(),
+    maxResults: z.number().min(1).max(200).optional().describe('Page size (default 50)'),
+  })).min(1).max(100),
+  options: BatchOptionsSchema,
+});
+
+export const UpcomingAlongRouteSchema = z.object({
+  routeId: z.string().min(1).describe('Route ID as returned by generate_route or another routing tool'),
+  position: LocationSchema.describe('Current position; it is snapped onto the route'),
+  lookAheadDistance: z.number().positive().max(100000).optional()
+    .describe('Meters ahead to look (default 2000 when no lookAheadTime is given)'),
+  lookAheadTime: z.number().positive().max(14400).optional()
+    .describe('Seconds of travel ahead to look; with lookAheadDistance, the shorter window wins'),
+  maxPins: z.number().int().min(1).max(100).default(20),
+});
+
+export const ExportRouteSchema = z.object({
+  routeData: z.record(z.any()).describe('Route response as returned by generate_route'),
+  includeProperties: z.boolean().default(true),
+  simplified: z.boolean().default(false),
+});
+
+export const EmptySchema = z.object({});
@@ -0,0 +1,214 @@
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../services/logger.service.js';
+
+export const MCP_ENDPOINT = '/mcp';
+export const SSE_ENDPOINT = '/sse';
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+
+type Session =
+  | { kind: 'streamable'; transport: StreamableHTTPServerTransport; server: Server }
+  | { kind: 'sse'; transport: SSEServerTransport; server: Server };
+
+/**
+ * Serves MCP over HTTP with one MCP server instance per client session.
+ *
+ * Streamable HTTP is served on /mcp. Legacy clients can use the SSE transport
+ * by opening GET /sse and posting messages to /messages?sessionId=...
+ * All sessions share the process-wide services (cache, spatial index, rate limiter).
+ */
+export class HttpTransportServer {
+  private httpServer: NodeHttpServer | null = null;
+  private sessions: Map<string, Session> = new Map();
+
+  constructor(private readonly serverFactory: () => Server) {}
+
+  /**
+   * Start listening on the given port
+   */
+  public async listen(port: number): Promise<NodeHttpServer> {
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logger.error('Failed to handle HTTP request', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(port, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    return this.httpServer;
+  }
+
+  /**
+   * Close all sessions and stop the HTTP server
+   */
+  public async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.server.close()));
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Number of currently open client sessions
+   */
+  public getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    switch (url.pathname) {
+      case MCP_ENDPOINT:
+        return this.handleStreamableRequest(req, res);
+      case SSE_ENDPOINT:
+        return this.handleSseConnect(req, res);
+      case SSE_MESSAGES_ENDPOINT:
+        return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      case '/health':
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }));
+        return;
+      default:
+        res.writeHead(404).end();
+    }
+  }
+
+  /**
+   * Streamable HTTP: POST carries client messages, GET opens a notification stream,
+   * DELETE terminates the session
+   */
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.kind !== 'streamable') {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.serverFactory();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, { kind: 'streamable', transport, server });
+        logger.info(`HTTP session opened: ${id}`, { sessions: this.sessions.size });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        logger.info(`HTTP session closed: ${transport.sessionId}`, { sessions: this.sessions.size });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Legacy SSE transport: open the event stream
+   */
+  private async handleSseConnect(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      res.writeHead(405, { Allow: 'GET' }).end();
+      return;
+    }
+
+    const server = this.serverFactory();
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { kind: 'sse', transport, server });
+    logger.info(`SSE session opened: ${sessionId}`, { sessions: this.sessions.size });
+
+    res.on('close', () => {
+      if (this.sessions.delete(sessionId)) {
+        logger.info(`SSE session closed: ${sessionId}`, { sessions: this.sessions.size });
+        server.close().catch(error => logger.error('Failed to close SSE session', error));
+      }
+    });
+
+    await server.connect(transport);
+  }
+
+  /**
+   * Legacy SSE transport: receive a client message
+   */
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== 'sse') {
+      this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    }));
+  }
+}
+
+/**
+ * Read and parse a JSON request body (undefined if empty or malformed)
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
@@ -44,6 +44,7 @@ export interface BatchEnrichResult {
     address: any;
     poisFound: number;
     pois: GeoPin[];
+    nextCursor?: string; // Continue with enrich_location for the same location and radius
   };
   error?: string;
 }
@@ -77,6 +78,7 @@ export interface BatchContextResult {
     radius: number;
     totalPins: number;
     pins: GeoPin[];
+    nextCursor?: string; // Continue with get_nearby_context for the same query
   };
   error?: string;
 }
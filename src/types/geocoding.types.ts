@@ -0,0 +1,79 @@
+import { Location, RouteRequest } from './index.js';
+
+// Forward geocoding types
+
+export type BoundingBox = [number, number, number, number]; // west, south, east, north
+
+export interface PlaceSearchOptions {
+  countryCodes?: string[]; // ISO 3166-1 alpha-2, e.g. ['us']
+  viewbox?: BoundingBox; // Preferred area; results inside it rank higher
+  bounded?: boolean; // Only return results inside the viewbox
+  signal?: AbortSignal;
+}
+
+export interface NominatimPlace {
+  place_id: number;
+  display_name: string;
+  lat: string;
+  lon: string;
+  boundingbox?: [string, string, string, string]; // south, north, west, east
+  osm_type?: 'node' | 'way' | 'relation';
+  osm_id?: number;
+  class?: string;
+  type?: string;
+  importance?: number;
+  address?: Record<string, string>;
+}
+
+export interface PlaceAddress {
+  houseNumber?: string;
+  road?: string;
+  neighbourhood?: string;
+  suburb?: string;
+  city?: string;
+  county?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+  countryCode?: string;
+}
+
+export interface GeocodeCandidate {
+  rank: number; // 1 is the best match
+  displayName: string;
+  location: Location;
+  address: PlaceAddress;
+  bbox?: BoundingBox;
+  osmType?: 'node' | 'way' | 'relation';
+  osmId?: number;
+  category?: string; // OSM class, e.g. 'place' or 'amenity'
+  type?: string; // OSM type within the class, e.g. 'city'
+  importance: number; // Nominatim importance, 0-1
+  confidence: number; // 0-1, see OpenStreetMapService.geocodePlace
+}
+
+export interface AddressInput {
+  street?: string; // House number and street
+  city?: string;
+  county?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+}
+
+export type LocationInput = Location | string | AddressInput;
+
+export type RouteRequestInput = Omit<RouteRequest, 'start' | 'end' | 'waypoints'> & {
+  start: LocationInput;
+  end: LocationInput;
+  waypoints?: LocationInput[];
+};
+
+export interface LocationResolution {
+  field: string; // Argument path, e.g. "start" or "requests[2].end"
+  query: string; // Text sent to the geocoder
+  location: Location;
+  displayName: string;
+  confidence: number;
+  alternatives: GeocodeCandidate[]; // Other candidates that were considered
+}
@@ -37,6 +37,13 @@ export interface PinMetadata {
   languages: string[];
   tags: string[];
 }
+
+export interface PinChangeEvent {
+  type: 'added' | 'updated' | 'removed';
+  pin: GeoPin;
+  previous?: GeoPin; // Set for updates
+}
+
 export interface TemporalData {
   startDate?: Date;
   endDate?: Date;
@@ -51,27 +58,233 @@ export interface RouteRequest {
   profile?: TravelProfile;
   interests?: string[];
   bufferRadius?: number;
+  language?: string; // Turn-by-turn instruction language, defaults to ROUTING_LANGUAGE
+  maxPins?: number; // Pins returned with the route, defaults to 20
+  pinRanking?: PinRanking; // How the returned pins are chosen, defaults to 'balanced'
 }
 
+// Route pins kept when there are more than maxPins: best interest match, shortest detour, or both
+export type PinRanking = 'relevance' | 'detour' | 'balanced';
+
 export type TravelProfile = 'driving' | 'walking' | 'cycling' | 'wheelchair';
 
+export type ManeuverType =
+  | 'depart'
+  | 'arrive'
+  | 'straight'
+  | 'turn_left'
+  | 'turn_right'
+  | 'sharp_left'
+  | 'sharp_right'
+  | 'slight_left'
+  | 'slight_right'
+  | 'keep_left'
+  | 'keep_right'
+  | 'enter_roundabout'
+  | 'exit_roundabout'
+  | 'u_turn';
+
+export interface RouteManeuver {
+  type: ManeuverType;
+  instruction: string; // Human-readable, in the requested language
+  streetName?: string;
+  distance: number; // Meters until the next maneuver
+  duration: number; // Seconds until the next maneuver
+  startIndex: number; // First route.coordinates index covered by this step
+  endIndex: number; // Last route.coordinates index covered by this step (inclusive)
+  exitNumber?: number; // Roundabout exit to take
+}
+
 export interface RouteResponse {
   routeId: string;
   route: {
     distance: number;
     duration: number;
     coordinates: number[][];
+    maneuvers?: RouteManeuver[];
+    language?: string; // Language of the maneuver instructions
   };
   contextualPins: number;
-  pins: GeoPin[];
+  pins: RoutePin[]; // Top maxPins by pinRanking, in travel order
   message: string;
 }
 
+export interface RoutePinPosition {
+  distanceAlong: number; // Meters from the route start to the closest point on the route
+  offset: number; // Meters between the pin and the route
+  detourTime: number; // Estimated seconds to leave the route, reach the pin and come back
+  relevance: number; // Share (0-1) of the requested interests the pin matches; 1 without interests
+}
+
+export interface RoutePin extends GeoPin {
+  alongRoute: RoutePinPosition;
+}
+
+export interface UpcomingRequest {
+  position: Location; // Current position, snapped onto the route
+  lookAheadDistance?: number; // Meters ahead
+  lookAheadTime?: number; // Seconds of travel ahead; the window ends at whichever limit comes first
+  maxPins?: number;
+}
+
+export interface UpcomingPin {
+  pin: RoutePin;
+  distanceAhead: number; // Meters along the route from the current position
+  timeAhead: number; // Seconds of travel from the current position
+}
+
+export interface UpcomingManeuver {
+  maneuver: RouteManeuver;
+  distanceAhead: number; // Meters along the route to where the maneuver starts
+  timeAhead: number; // Seconds of travel to where the maneuver starts
+}
+
+export interface UpcomingAlongRoute {
+  routeId: string;
+  snappedPosition: Location; // Closest point on the route
+  distanceFromRoute: number; // Meters between the position and the route
+  offRoute: boolean; // Too far from the route for the progress to be meaningful
+  progress: {
+    distanceAlong: number; // Meters travelled from the start
+    distanceRemaining: number;
+    timeRemaining: number; // Seconds
+    fraction: number; // 0-1
+  };
+  lookAhead: {
+    distance: number; // Meters covered by the window
+    time: number; // Seconds covered by the window
+  };
+  pins: UpcomingPin[]; // In travel order
+  maneuvers: UpcomingManeuver[]; // In travel order
+  message: string;
+}
+
+export interface RouteAlternative extends RouteResponse {
+  overlapWithMain: number; // Share (0-1) of this route's length that runs along the main route
+}
+
+export interface AlternativeRoutesResponse {
+  main: RouteResponse;
+  alternatives: RouteAlternative[]; // Best first; may be fewer than requested
+  method: 'provider' | 'via_point'; // Provider alternatives or penalty-scored via-point detours
+  message: string;
+}
+
+export interface OptimizedTripResponse {
+  order: number[]; // Visiting order as indices into [start, ...waypoints, end] as requested
+  matrixSource: string; // Routing provider the travel times came from, or 'estimate'
+  originalDuration: number; // seconds, requested order
+  optimizedDuration: number; // seconds, optimized order
+  savings: {
+    duration: number; // seconds
+    percentage: number;
+  };
+  route: RouteResponse; // Route through the stops in the optimized order
+  message: string;
+}
+
+export interface TourRequest {
+  start: Location; // The tour starts and ends here
+  profile?: TravelProfile;
+  interests?: string[];
+  timeBudget: number; // minutes, travel and stops included
+  dwellTimes?: Partial<Record<PinType, number>>; // minutes spent per stop type
+  startTime?: Date;
+  timeZone?: string; // IANA zone opening hours are read in, defaults to the server's
+  maxStops?: number;
+  radius?: number; // meters around the start to search for stops
+  language?: string;
+}
+
+export interface ItineraryStop {
+  pin: GeoPin;
+  arrival: string; // ISO 8601
+  visitStart: string; // Later than arrival when waiting for the place to open
+  departure: string;
+  travelMinutes: number; // from the previous stop
+  waitMinutes: number;
+  dwellMinutes: number;
+}
+
+export interface SkippedStop {
+  pin: GeoPin;
+  reason: string;
+}
+
+export interface TourPlan {
+  start: Location;
+  startTime: string; // ISO 8601
+  endTime: string; // Back at the start
+  timeBudget: number; // minutes
+  travelMinutes: number;
+  dwellMinutes: number;
+  matrixSource: string; // Routing provider the travel times came from, or 'estimate'
+  itinerary: ItineraryStop[]; // In visiting order
+  warnings: string[];
+  route?: RouteResponse; // Loop through the stops; absent when no stop fits the budget
+  message: string;
+}
+
+export interface ItineraryRequest {
+  start: Location;
+  end?: Location; // Defaults to finishing at the last stop
+  stops: GeoPin[]; // In the preferred order
+  departureTime: Date;
+  timeZone?: string; // IANA zone opening hours are read in, defaults to the server's
+  profile?: TravelProfile;
+  dwellTimes?: Partial<Record<PinType, number>>; // minutes spent per stop type
+  maxWaitMinutes?: number; // Longest wait for a stop to open
+}
+
+export interface ItinerarySchedule {
+  departureTime: string; // ISO 8601
+  endTime: string; // Arrival at the end, or departure from the last stop
+  timeZone: string;
+  matrixSource: string; // Routing provider the travel times came from, or 'estimate'
+  reordered: boolean; // Stops are not visited in the requested order
+  itinerary: ItineraryStop[]; // In visiting order
+  skipped: SkippedStop[];
+  warnings: string[];
+}
+
 export interface NearbyContextRequest {
   location: Location;
   radius?: number;
   types?: PinType[];
   maxResults?: number;
+  cursor?: string;
+}
+
+export interface PinMatch {
+  pin: GeoPin;
+  distance: number; // Meters from the query origin
+  bearing: number; // Degrees clockwise from north (0-360) as seen from the query origin
+}
+
+export interface PageRequest {
+  cursor?: string; // nextCursor from the previous page
+  limit: number;
+  queryKey: string; // Fingerprint of the query the cursor belongs to
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor?: string; // Absent on the last page
+}
+
+export interface ProgressUpdate {
+  phase?: string; // e.g. 'routing', 'poi_discovery', 'indexing'
+  completed: number; // Cumulative, must not decrease
+  failed?: number;
+  total?: number;
+}
+
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+export interface OperationOptions {
+  signal?: AbortSignal; // Aborts outstanding upstream work, e.g. when the client cancels
+  onProgress?: ProgressCallback;
 }
 
 export interface EnrichmentSource {
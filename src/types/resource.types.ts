@@ -0,0 +1,21 @@
+// Resource registry types
+
+import { PinChangeEvent } from './index.js';
+
+export interface ResourceDefinition {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType?: string;
+  read: (uri: string) => unknown | Promise<unknown>;
+  affectedBy?: (event: PinChangeEvent) => boolean; // Enables subscriptions for this resource
+}
+
+export interface ResourceTemplateDefinition {
+  uriTemplate: string; // RFC 6570 template, e.g. geocontext://pins/{id}
+  name: string;
+  description: string;
+  mimeType?: string;
+  read: (params: Record<string, string>, uri: string) => unknown | Promise<unknown>;
+  affectedBy?: (params: Record<string, string>, event: PinChangeEvent) => boolean;
+}
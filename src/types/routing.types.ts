@@ -0,0 +1,95 @@
+import type { Feature, MultiPolygon, Polygon } from '@turf/turf';
+import type { RoutingProviderName } from '../config/config.service.js';
+import { Location, RouteManeuver, TravelProfile } from './index.js';
+
+// Routing provider types
+
+export interface ProviderRouteRequest {
+  locations: Location[]; // Start, waypoints and end, in travel order
+  profile: TravelProfile;
+  language: string;
+  alternatives?: number; // Extra routes to request besides the main one
+}
+
+// Provider-independent route model; coordinates are [lng, lat]
+export interface NormalizedRoute {
+  distance: number; // meters
+  duration: number; // seconds
+  coordinates: number[][];
+  maneuvers?: RouteManeuver[];
+  language?: string; // Language the instructions were actually returned in
+}
+
+export type IsochroneRangeType = 'time' | 'distance';
+
+export interface ProviderIsochroneRequest {
+  location: Location;
+  profile: TravelProfile;
+  rangeType: IsochroneRangeType;
+  ranges: number[]; // Seconds or meters, ascending
+}
+
+export type IsochroneFeature = Feature<Polygon | MultiPolygon, { value: number; rangeType: IsochroneRangeType }>;
+
+export interface IsochroneResult {
+  source: RoutingProvider['name'] | 'estimate'; // 'estimate' = circles at typical profile speeds
+  features: IsochroneFeature[]; // One per range, smallest first
+}
+
+export interface ProviderMatrixRequest {
+  sources: Location[];
+  destinations: Location[];
+  profile: TravelProfile;
+}
+
+// Indexed [source][destination]; null where no route was found
+export interface RouteMatrix {
+  durations: Array<Array<number | null>>; // seconds
+  distances: Array<Array<number | null>>; // meters
+}
+
+export interface RouteMatrixResult extends RouteMatrix {
+  source: RoutingProvider['name'] | 'estimate'; // 'estimate' = straight lines at typical profile speeds
+}
+
+export interface RoutingProvider {
+  readonly name: RoutingProviderName | 'offline';
+  readonly supportsAlternatives: boolean; // Between two locations only
+  /**
+   * Main route first, followed by any alternatives. Empty when no route was found.
+   */
+  route(request: ProviderRouteRequest, signal?: AbortSignal): Promise<NormalizedRoute[]>;
+  /**
+   * Reachable areas, one polygon per range. Only implemented by providers with isochrone support.
+   */
+  isochrones?(request: ProviderIsochroneRequest, signal?: AbortSignal): Promise<IsochroneFeature[]>;
+  /**
+   * Travel times and distances between every source and destination, without geometry.
+   * Only implemented by providers with a matrix endpoint.
+   */
+  matrix?(request: ProviderMatrixRequest, signal?: AbortSignal): Promise<RouteMatrix>;
+  /**
+   * Prepare anything slow to set up before the first request. Only implemented by providers
+   * that need it.
+   */
+  warmUp?(): Promise<void>;
+}
+
+export interface RoutingProviderOptions {
+  baseUrl?: string; // Overrides the provider's public API URL, e.g. for self-hosted engines
+  apiKey?: string;
+  timeout: number;
+}
+
+// OSM extract for the offline router
+
+export interface OsmWay {
+  id: number;
+  nodeIds: number[];
+  tags: Record<string, string>;
+}
+
+export interface OsmExtract {
+  nodes: Map<number, number[]>; // Node ID to [lng, lat]
+  ways: OsmWay[];
+}
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { ProgressCallback } from './index.js';
+
+// Tool registry types
+
+export interface ToolDefinition<TSchema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: TSchema; // Single source for validation and the advertised JSON Schema
+  handler: (args: z.output<TSchema>, context: ToolContext) => Promise<unknown>;
+  errorMessage: string; // Prefix for unexpected handler errors, e.g. "Failed to generate route"
+  middleware?: boolean; // Run through composeMiddleware (default true); validation always applies
+}
+
+export interface ToolContext {
+  progress: ProgressCallback; // No-op unless the caller supplied a progress token
+  signal: AbortSignal; // Aborted when the client cancels the request
+}
+
+export interface ToolListing {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    [key: string]: unknown;
+  };
+}
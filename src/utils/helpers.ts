@@ -12,6 +12,14 @@ export function calculateDistance(loc1: Location, loc2: Location): number {
   return turf.distance(point1, point2, { units: 'meters' });
 }
 
+/**
+ * Calculate the initial compass bearing from one location to another, in degrees 0-360
+ */
+export function calculateBearing(from: Location, to: Location): number {
+  const bearing = turf.bearing(turf.point([from.lng, from.lat]), turf.point([to.lng, to.lat]));
+  return (bearing + 360) % 360;
+}
+
 /**
  * Check if a location is within a pin's radius
  */
@@ -41,4 +49,24 @@ export function isValidCoordinate(location: Location): boolean {
     location.lng >= -180 &&
     location.lng <= 180
   );
+}
+
+/**
+ * Split a west,south,east,north bounding box crossing the antimeridian (west > east)
+ * into an eastern and a western half; other boxes are returned whole
+ */
+export function splitBoundingBox([west, south, east, north]: number[]): Array<[number, number, number, number]> {
+  return west <= east
+    ? [[west, south, east, north]]
+    : [[west, south, 180, north], [-180, south, east, north]];
+}
+
+/**
+ * Check whether an error was caused by an aborted operation (client cancellation)
+ */
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) {
+    return true;
+  }
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'CanceledError');
 }
\ No newline at end of file
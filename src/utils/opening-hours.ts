@@ -0,0 +1,178 @@
+// Opening hours in local minutes from midnight, per weekday Monday to Sunday. Intervals may end
+// after 1440 when a place stays open past midnight.
+export type WeeklyHours = Array<Array<[number, number]>>;
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+const HOLIDAYS = ['PH', 'SH'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DAY_SELECTOR = /^(Mo|Tu|We|Th|Fr|Sa|Su|PH|SH)(-(Mo|Tu|We|Th|Fr|Sa|Su))?(,(Mo|Tu|We|Th|Fr|Sa|Su|PH|SH)(-(Mo|Tu|We|Th|Fr|Sa|Su))?)*$/;
+const TIME_RANGE = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/;
+
+/**
+ * Weekdays (0 = Monday) named by a selector such as "Mo-Fr,Su"; ranges may wrap ("Fr-Mo").
+ * Holidays can't be told apart from other days, so they select nothing.
+ */
+function parseDays(selector: string): number[] {
+  const days = new Set<number>();
+  selector.split(',').forEach(part => {
+    const [from, to] = part.split('-');
+    if (HOLIDAYS.includes(from)) {
+      return;
+    }
+    const first = WEEKDAYS.indexOf(from);
+    const last = to ? WEEKDAYS.indexOf(to) : first;
+    for (let day = first; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === last) {
+        break;
+      }
+    }
+  });
+  return Array.from(days);
+}
+
+function parseTimes(value: string): Array<[number, number]> | null {
+  if (value === 'off' || value === 'closed') {
+    return [];
+  }
+
+  const intervals: Array<[number, number]> = [];
+  for (const range of value.split(',')) {
+    const match = range.match(TIME_RANGE);
+    if (!match) {
+      return null;
+    }
+    const start = Number(match[1]) * 60 + Number(match[2]);
+    let end = Number(match[3]) * 60 + Number(match[4]);
+    if (start >= 1440 || end > 1440 + 1440) {
+      return null;
+    }
+    if (end <= start) {
+      end += 1440;
+    }
+    intervals.push([start, end]);
+  }
+  return intervals;
+}
+
+/**
+ * Parse the common subset of the OSM opening_hours syntax: "24/7", weekday selectors with time
+ * ranges or "off", and several rules separated by ";" where later rules override earlier ones
+ * for the days they name. Returns null for anything else (months, dates, sunrise, comments...).
+ */
+export function parseOpeningHours(value: string): WeeklyHours | null {
+  const week: WeeklyHours = WEEKDAYS.map(() => []);
+  const rules = value.split(/;|\|\|/).map(rule => rule.trim()).filter(Boolean);
+  if (rules.length === 0) {
+    return null;
+  }
+
+  for (const rule of rules) {
+    if (rule === '24/7') {
+      WEEKDAYS.forEach((_, day) => (week[day] = [[0, 1440]]));
+      continue;
+    }
+
+    const parts = rule.replace(/\s*,\s*/g, ',').replace(/\s*-\s*/g, '-').split(/\s+/);
+    let days = WEEKDAYS.map((_, day) => day);
+    let times: Array<[number, number]> | null = [[0, 1440]];
+
+    if (parts.length === 2 && DAY_SELECTOR.test(parts[0])) {
+      days = parseDays(parts[0]);
+      times = parseTimes(parts[1]);
+    } else if (parts.length === 1 && DAY_SELECTOR.test(parts[0])) {
+      days = parseDays(parts[0]);
+    } else if (parts.length === 1) {
+      times = parseTimes(parts[0]);
+    } else {
+      return null;
+    }
+
+    if (!times) {
+      return null;
+    }
+    days.forEach(day => (week[day] = times!));
+  }
+
+  return week;
+}
+
+/**
+ * Wall-clock date, weekday (0 = Monday) and UTC offset in a time zone at an instant
+ */
+function zonedParts(instant: number, timeZone: string): { date: number; weekday: number; offset: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => parts.find(part => part.type === type)!.value;
+
+  const date = Date.UTC(Number(get('year')), Number(get('month')) - 1, Number(get('day')));
+  const wallClock = date + (Number(get('hour')) * 3600 + Number(get('minute')) * 60 + Number(get('second'))) * 1000;
+  const weekday = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].indexOf(get('weekday'));
+  return { date, weekday, offset: wallClock - (instant - (instant % 1000)) };
+}
+
+/**
+ * Open periods as [start, end] timestamps overlapping the span between two instants. Each day's
+ * times are placed with one UTC offset for the whole day, so they can be an hour off on days
+ * when clocks change.
+ */
+export function openIntervals(hours: WeeklyHours, from: number, until: number, timeZone: string): Array<[number, number]> {
+  const intervals: Array<[number, number]> = [];
+
+  // Start a day early for places that opened the evening before and are still open
+  for (let instant = from - DAY_MS; instant < until + DAY_MS; instant += DAY_MS) {
+    const { date, weekday, offset } = zonedParts(instant, timeZone);
+    const midnight = date - offset;
+    hours[weekday].forEach(([start, end]) => {
+      const interval: [number, number] = [midnight + start * 60000, midnight + end * 60000];
+      if (interval[1] > from && interval[0] < until) {
+        intervals.push(interval);
+      }
+    });
+  }
+
+  intervals.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  intervals.forEach(interval => {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([...interval]);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Earliest time a visit of the given length can start at or after arrival, waiting at most
+ * maxWaitMinutes, so that the place is open for the whole visit. Null when there is none.
+ */
+export function earliestVisitStart(
+  hours: WeeklyHours,
+  arrival: number,
+  visitMinutes: number,
+  maxWaitMinutes: number,
+  timeZone: string
+): number | null {
+  const latestStart = arrival + maxWaitMinutes * 60000;
+  const visit = visitMinutes * 60000;
+
+  for (const [start, end] of openIntervals(hours, arrival, latestStart + visit, timeZone)) {
+    const visitStart = Math.max(arrival, start);
+    if (visitStart <= latestStart && visitStart + visit <= end) {
+      return visitStart;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,143 @@
+// Cursor-based pagination for pin result sets
+
+import { createHash } from 'crypto';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { GeoPin, Location, Page, PageRequest } from '../types/index.js';
+import { calculateDistance } from './helpers.js';
+
+interface CursorPayload {
+  q: string; // Query fingerprint
+  d: number; // Distance of the last item on the previous page
+  id: string; // ID of the last item on the previous page
+}
+
+interface ResultSet {
+  pins: GeoPin[];
+  storedAt: number;
+}
+
+const RESULT_SET_TTL_MS = 30 * 60 * 1000;
+const MAX_RESULT_SETS = 200;
+
+// Upstream result sets by query key, kept while a client pages through them
+const resultSets = new Map<string, ResultSet>();
+
+/**
+ * Fingerprint a query so a cursor can only continue the query that produced it
+ */
+export function createQueryKey(kind: string, ...parts: unknown[]): string {
+  const hash = createHash('sha1').update(JSON.stringify(parts)).digest('base64url');
+  return `${kind}:${hash.slice(0, 12)}`;
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, queryKey: string): CursorPayload {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+
+  if (!payload || typeof payload.d !== 'number' || typeof payload.id !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+  if (payload.q !== queryKey) {
+    throw new McpError(ErrorCode.InvalidParams, 'Cursor does not belong to this query');
+  }
+
+  return payload;
+}
+
+/**
+ * Page through pins ordered by distance from an origin, then by ID.
+ * Without an origin all distances are 0 and pins are ordered by ID alone.
+ *
+ * The cursor holds the sort key of the last pin returned, so pages stay stable
+ * while pins are added or removed between requests.
+ */
+export function paginateByDistance(
+  pins: GeoPin[],
+  origin: Location | null,
+  { cursor, limit, queryKey }: PageRequest
+): Page<GeoPin> {
+  const sorted = pins
+    .map(pin => ({ pin, distance: origin ? calculateDistance(origin, pin.location) : 0 }))
+    .sort((a, b) => a.distance - b.distance || compareIds(a.pin.id, b.pin.id));
+
+  let start = 0;
+  if (cursor) {
+    const after = decodeCursor(cursor, queryKey);
+    start = sorted.findIndex(item =>
+      item.distance > after.d || (item.distance === after.d && compareIds(item.pin.id, after.id) > 0)
+    );
+    if (start === -1) {
+      start = sorted.length;
+    }
+  }
+
+  const slice = sorted.slice(start, start + limit);
+  const last = slice[slice.length - 1];
+  const hasMore = start + limit < sorted.length;
+
+  return {
+    items: slice.map(item => item.pin),
+    total: sorted.length,
+    nextCursor: hasMore && last
+      ? encodeCursor({ q: queryKey, d: last.distance, id: last.pin.id })
+      : undefined,
+  };
+}
+
+/**
+ * Fetch the result set for a paginated query. A first page fetches and keeps the
+ * set under its query key; cursor pages reuse it, so every page comes from one
+ * snapshot even when the upstream data changes. Once the set expires a cursor page
+ * fetches again, and pages are continued from the fresh set.
+ */
+export async function loadResultSet(
+  queryKey: string,
+  cursor: string | undefined,
+  fetch: () => Promise<GeoPin[]>
+): Promise<GeoPin[]> {
+  const stored = resultSets.get(queryKey);
+  if (cursor && stored && Date.now() - stored.storedAt < RESULT_SET_TTL_MS) {
+    return stored.pins;
+  }
+
+  const pins = await fetch();
+  resultSets.delete(queryKey);
+  if (resultSets.size >= MAX_RESULT_SETS) {
+    const oldestKey = resultSets.keys().next().value;
+    if (oldestKey !== undefined) {
+      resultSets.delete(oldestKey);
+    }
+  }
+  resultSets.set(queryKey, { pins, storedAt: Date.now() });
+  return pins;
+}
+
+/**
+ * Remove all stored result sets
+ */
+export function clearResultSets(): void {
+  resultSets.clear();
+}
+
+/**
+ * Query keys shared by the single-item tools and the batch tools, so a cursor
+ * from a batch result continues in get_nearby_context or enrich_location
+ */
+export const queryKeys = {
+  nearby: (location: Location, radius: number, types?: string[]) =>
+    createQueryKey('nearby', location.lat, location.lng, radius, [...(types || [])].sort()),
+  enrich: (location: Location, radius: number) =>
+    createQueryKey('enrich', location.lat, location.lng, radius),
+};
+
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,108 @@
+import nock from 'nock';
+import cache from '../src/services/cache/cache.service';
+import routingService from '../src/services/routing/routing.service';
+import routeStore from '../src/services/routing/route-store.service';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { ProviderRouteRequest, RoutingProvider } from '../src/types/routing.types';
+import { callTool } from './test-utils';
+
+describe('Alternative routes', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+    routeStore.clear();
+    spatialIndex.clear();
+
+    // POI discovery along every candidate route
+    nock('https://overpass-api.de')
+      .persist()
+      .post('/api/interpreter')
+      .reply(200, { elements: [] });
+  });
+
+  afterAll(() => {
+    nock.cleanAll();
+  });
+
+  it('should return distinct via-point alternatives without a routing provider', async () => {
+    const data = await callTool('get_alternative_routes', {
+      start: { lat: 51.5, lng: -0.12 },
+      end: { lat: 51.52, lng: -0.08 },
+      profile: 'walking',
+      alternatives: 2,
+    });
+
+    expect(data.method).toBe('via_point');
+    expect(data.alternatives).toHaveLength(2);
+
+    const mainDistance = data.main.route.distance;
+    data.alternatives.forEach((alternative: any) => {
+      expect(alternative.route.distance).toBeGreaterThan(mainDistance);
+      expect(alternative.overlapWithMain).toBeGreaterThanOrEqual(0);
+      expect(alternative.overlapWithMain).toBeLessThanOrEqual(0.8);
+      expect(alternative.contextualPins).toBe(0);
+    });
+
+    // Least detour first, and both sides of the main route are distinct routes
+    expect(data.alternatives[0].route.duration).toBeLessThanOrEqual(data.alternatives[1].route.duration);
+    expect(data.alternatives[0].route.coordinates).not.toEqual(data.alternatives[1].route.coordinates);
+  });
+
+  it('should store every returned route', async () => {
+    const data = await callTool('get_alternative_routes', {
+      start: { lat: 48.85, lng: 2.29 },
+      end: { lat: 48.86, lng: 2.35 },
+      alternatives: 1,
+    });
+
+    expect(routeStore.get(data.main.routeId)).toBeDefined();
+    expect(routeStore.get(data.alternatives[0].routeId)).toBeDefined();
+  });
+
+  it('should keep waypoints in order around the detour', async () => {
+    const data = await callTool('get_alternative_routes', {
+      start: { lat: 51.5, lng: -0.2 },
+      end: { lat: 51.5, lng: 0 },
+      waypoints: [{ lat: 51.5, lng: -0.15 }, { lat: 51.5, lng: -0.05 }],
+      alternatives: 1,
+    });
+
+    const coordinates: number[][] = data.alternatives[0].route.coordinates;
+    expect(coordinates).toHaveLength(5);
+    expect(coordinates[1]).toEqual([-0.15, 51.5]);
+    expect(coordinates[3]).toEqual([-0.05, 51.5]);
+  });
+
+  it('should ask the provider again after a failed alternatives request', async () => {
+    const service = routingService as unknown as { provider: RoutingProvider | null };
+    const original = service.provider;
+    let failing = true;
+    const route = (coordinates: number[][]) => ({ distance: 1000, duration: 100, coordinates });
+    service.provider = {
+      name: 'osrm',
+      supportsAlternatives: true,
+      route: async (request: ProviderRouteRequest) => {
+        const line = request.locations.map(({ lat, lng }) => [lng, lat]);
+        if (!request.alternatives) {
+          return [route(line)];
+        }
+        if (failing) {
+          throw new Error('Service unavailable');
+        }
+        return [route(line), route([line[0], [2.32, 48.87], line[line.length - 1]])];
+      },
+    };
+
+    try {
+      cache.flush();
+      const args = { start: { lat: 48.85, lng: 2.29 }, end: { lat: 48.86, lng: 2.35 }, alternatives: 1 };
+      expect((await callTool('get_alternative_routes', args)).method).toBe('via_point');
+
+      failing = false;
+      const recovered = await callTool('get_alternative_routes', args);
+      expect(recovered.method).toBe('provider');
+      expect(recovered.alternatives).toHaveLength(1);
+    } finally {
+      service.provider = original;
+    }
+  });
+});
@@ -0,0 +1,49 @@
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { toolRegistry } from '../src/tools';
+import { GeoPin } from '../src/types';
+import { createTestPin } from './test-utils';
+
+describe('Batch tools', () => {
+  beforeEach(() => {
+    spatialIndex.clear();
+    spatialIndex.addPin(createTestPin('hotel_a_1', 51.5074, -0.1278));
+    spatialIndex.addPin(createTestPin('hotel_a_2', 51.5075, -0.1279));
+    spatialIndex.addPin(createTestPin('hotel_b_1', 48.8566, 2.3522));
+  });
+
+  it('should get nearby context for each query in order', async () => {
+    const result = await toolRegistry.call('batch_get_nearby_context', {
+      queries: [
+        { location: { lat: 51.5074, lng: -0.1278 }, radius: 100, maxResults: 1 },
+        { location: { lat: 48.8566, lng: 2.3522 }, radius: 100, maxResults: 1 },
+      ],
+    });
+    const data = JSON.parse(result.content[0].text);
+
+    expect(data.totalRequests).toBe(2);
+    expect(data.successful).toBe(2);
+    expect(data.results.map((r: any) => r.data.pins[0].id)).toEqual(['hotel_a_1', 'hotel_b_1']);
+    expect(data.results[0].data.totalPins).toBe(2);
+    expect(data.results[0].data.nextCursor).toBeDefined();
+    expect(data.results[1].data.nextCursor).toBeUndefined();
+  });
+
+  it('should continue a batch result page with get_nearby_context', async () => {
+    const batch = JSON.parse((await toolRegistry.call('batch_get_nearby_context', {
+      queries: [{ location: { lat: 51.5074, lng: -0.1278 }, radius: 100, maxResults: 1 }],
+    })).content[0].text);
+
+    const next = JSON.parse((await toolRegistry.call('get_nearby_context', {
+      location: { lat: 51.5074, lng: -0.1278 },
+      radius: 100,
+      maxResults: 1,
+      cursor: batch.results[0].data.nextCursor,
+    })).content[0].text);
+
+    expect(next.pins.map((p: GeoPin) => p.id)).toEqual(['hotel_a_2']);
+  });
+
+  it('should reject empty batches', async () => {
+    await expect(toolRegistry.call('batch_get_nearby_context', { queries: [] })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,120 @@
+import nock from 'nock';
+import cache from '../src/services/cache/cache.service';
+import routeStore from '../src/services/routing/route-store.service';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { toolRegistry } from '../src/tools';
+
+describe('Corridor POI discovery', () => {
+  const node = (id: number, lat: number, lon: number) => ({
+    type: 'node',
+    id,
+    lat,
+    lon,
+    tags: { name: `Place ${id}`, tourism: 'museum' },
+  });
+
+  let queries: string[];
+
+  const mockOverpass = (elements: unknown[]) => {
+    nock('https://overpass-api.de')
+      .persist()
+      .post('/api/interpreter', (body: { data: string }) => {
+        queries.push(body.data);
+        return true;
+      })
+      .reply(200, { elements });
+  };
+
+  const generateRoute = async (args: Record<string, unknown>) => {
+    const result = await toolRegistry.call('generate_route', args);
+    return JSON.parse(result.content[0].text);
+  };
+
+  beforeEach(() => {
+    nock.cleanAll();
+    cache.flush();
+    routeStore.clear();
+    spatialIndex.clear();
+    queries = [];
+  });
+
+  afterAll(() => {
+    nock.cleanAll();
+  });
+
+  it('should query a short route with one Overpass request around the line', async () => {
+    mockOverpass([]);
+
+    await generateRoute({
+      start: { lat: 48.85, lng: 2.29 },
+      end: { lat: 48.86, lng: 2.35 },
+      bufferRadius: 400,
+    });
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain('(around:500,48.850000,2.290000,48.860000,2.350000)');
+  });
+
+  it('should split long routes into a few corridor queries', async () => {
+    mockOverpass([]);
+
+    // About 150 km over three legs; sampling every kilometer took 150 requests
+    await generateRoute({
+      start: { lat: 48.0, lng: 2.0 },
+      waypoints: [{ lat: 48.3, lng: 2.5 }, { lat: 48.0, lng: 3.0 }],
+      end: { lat: 48.3, lng: 3.5 },
+      bufferRadius: 500,
+    });
+
+    expect(queries.length).toBeGreaterThan(1);
+    expect(queries.length).toBeLessThanOrEqual(4);
+    queries.forEach(query => expect(query).toMatch(/\(around:625,[\d.,]+\)/));
+  });
+
+  it('should only keep POIs within the buffer radius of the route', async () => {
+    mockOverpass([
+      node(1, 48.8501, 2.3),   // on the route
+      node(2, 48.8518, 2.32),  // about 200 m off
+      node(3, 48.87, 2.32),    // about 1.5 km off
+      node(4, 48.8501, 2.3),   // duplicate location
+    ]);
+
+    const data = await generateRoute({
+      start: { lat: 48.85, lng: 2.29 },
+      end: { lat: 48.85, lng: 2.35 },
+      bufferRadius: 300,
+    });
+
+    expect(data.contextualPins).toBe(2);
+    expect(data.pins.map((pin: any) => pin.data.name).sort()).toEqual(['Place 1', 'Place 2']);
+  });
+
+  it('should match POIs carrying any one of the interest tags', async () => {
+    mockOverpass([{ type: 'node', id: 1, lat: 48.8501, lon: 2.3, tags: { name: 'Old Gate', historic: 'city_gate' } }]);
+
+    const data = await generateRoute({
+      start: { lat: 48.85, lng: 2.29 },
+      end: { lat: 48.85, lng: 2.35 },
+      interests: ['history'],
+    });
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toMatch(/node\["historic"\]\(around:[\d.,]+\);/);
+    expect(queries[0]).toMatch(/node\["heritage"\]\(around:[\d.,]+\);/);
+    expect(queries[0]).not.toContain('["historic"]["heritage"]');
+    expect(data.pins.map((pin: any) => pin.data.name)).toEqual(['Old Gate']);
+  });
+
+  it('should handle routes that double back on themselves', async () => {
+    mockOverpass([node(1, 48.8501, 2.3)]);
+
+    const data = await generateRoute({
+      start: { lat: 48.85, lng: 2.29 },
+      waypoints: [{ lat: 48.85, lng: 2.31 }],
+      end: { lat: 48.85, lng: 2.29 },
+    });
+
+    expect(queries).toHaveLength(1);
+    expect(data.contextualPins).toBe(1);
+  });
+});
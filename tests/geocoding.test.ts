@@ -0,0 +1,95 @@
+import nock from 'nock';
+import osmService from '../src/services/enrichment/openstreetmap.service';
+import { toolRegistry } from '../src/tools';
+
+describe('Geocoding', () => {
+  const springfields = [
+    {
+      place_id: 1,
+      display_name: 'Springfield, Greene County, Missouri, United States',
+      lat: '37.2090',
+      lon: '-93.2923',
+      boundingbox: ['37.1', '37.3', '-93.4', '-93.2'],
+      osm_type: 'relation',
+      osm_id: 1001,
+      class: 'boundary',
+      type: 'administrative',
+      importance: 0.72,
+      address: { city: 'Springfield', county: 'Greene County', state: 'Missouri', country: 'United States', country_code: 'us' },
+    },
+    {
+      place_id: 2,
+      display_name: 'Springfield, Sangamon County, Illinois, United States',
+      lat: '39.7990',
+      lon: '-89.6440',
+      boundingbox: ['39.7', '39.9', '-89.8', '-89.5'],
+      osm_type: 'relation',
+      osm_id: 1002,
+      class: 'boundary',
+      type: 'administrative',
+      importance: 0.68,
+      address: { city: 'Springfield', county: 'Sangamon County', state: 'Illinois', country: 'United States', country_code: 'us' },
+    },
+  ];
+
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  it('should map candidates to structured results', async () => {
+    nock('https://nominatim.openstreetmap.org')
+      .get('/search')
+      .query(true)
+      .reply(200, springfields);
+
+    const [first] = await osmService.geocodePlace('Springfield', 5);
+
+    expect(first).toMatchObject({
+      rank: 1,
+      location: { lat: 37.209, lng: -93.2923 },
+      bbox: [-93.4, 37.1, -93.2, 37.3],
+      osmType: 'relation',
+      osmId: 1001,
+      address: { city: 'Springfield', state: 'Missouri', countryCode: 'US' },
+    });
+  });
+
+  it('should rank candidates matching more of the query first', async () => {
+    nock('https://nominatim.openstreetmap.org')
+      .get('/search')
+      .query(true)
+      .reply(200, springfields);
+
+    const candidates = await osmService.geocodePlace('Springfield, Illinois', 5);
+
+    expect(candidates[0].address.state).toBe('Illinois');
+    expect(candidates[0].confidence).toBeGreaterThan(candidates[1].confidence);
+  });
+
+  it('should pass country and viewbox filters to Nominatim', async () => {
+    nock('https://nominatim.openstreetmap.org')
+      .get('/search')
+      .query(query =>
+        query.countrycodes === 'us' &&
+        query.viewbox === '-91,36,-87,42' &&
+        query.bounded === '1'
+      )
+      .reply(200, [springfields[1]]);
+
+    const data = JSON.parse((await toolRegistry.call('geocode_place', {
+      query: 'Springfield',
+      countryCodes: ['US'],
+      viewbox: { west: -91, south: 36, east: -87, north: 42 },
+      bounded: true,
+    })).content[0].text);
+
+    expect(data.totalCandidates).toBe(1);
+    expect(data.ambiguous).toBe(false);
+    expect(data.candidates[0].osmId).toBe(1002);
+  });
+
+  it('should require a viewbox when bounded', async () => {
+    await expect(toolRegistry.call('geocode_place', { query: 'Springfield', bounded: true }))
+      .rejects.toThrow('bounded requires a viewbox');
+  });
+});
@@ -1,6 +1,6 @@
 // Basic tests for utility functions
 
-import { calculateDistance, isValidCoordinate, generateId } from '../src/utils/helpers';
+import { calculateDistance, isValidCoordinate, generateId, isAbortError, splitBoundingBox } from '../src/utils/helpers';
 
 describe('Helper Functions', () => {
   describe('calculateDistance', () => {
@@ -48,4 +48,37 @@ describe('Helper Functions', () => {
       expect(id).toMatch(/^pin_/);
     });
   });
-});
\ No newline at end of file
+
+  describe('isAbortError', () => {
+    it('should detect abort and axios cancellation errors', () => {
+      const abort = new Error('aborted');
+      abort.name = 'AbortError';
+      const canceled = new Error('canceled');
+      canceled.name = 'CanceledError';
+
+      expect(isAbortError(abort)).toBe(true);
+      expect(isAbortError(canceled)).toBe(true);
+      expect(isAbortError(new Error('boom'))).toBe(false);
+    });
+
+    it('should treat any error as a cancellation once the signal is aborted', () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      expect(isAbortError(new Error('The task was aborted.'), controller.signal)).toBe(true);
+    });
+  });
+
+  describe('splitBoundingBox', () => {
+    it('should keep boxes that do not cross the antimeridian whole', () => {
+      expect(splitBoundingBox([-0.2, 51.45, -0.05, 51.55])).toEqual([[-0.2, 51.45, -0.05, 51.55]]);
+    });
+
+    it('should split boxes crossing the antimeridian into an eastern and a western half', () => {
+      expect(splitBoundingBox([179, -20, -179, -10])).toEqual([
+        [179, -20, 180, -10],
+        [-180, -20, -179, -10],
+      ]);
+    });
+  });
+});
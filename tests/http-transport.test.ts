@@ -0,0 +1,161 @@
+import { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema, LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportServer, MCP_ENDPOINT, SSE_ENDPOINT } from '../src/transports/http.transport';
+
+describe('HTTP transport', () => {
+  let transport: HttpTransportServer;
+  let baseUrl: string;
+  let serversCreated: number;
+
+  const initialize = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    },
+  };
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+  const readJson = (response: Response): Promise<any> => response.json();
+
+  // Streamable HTTP answers with JSON or a short event stream carrying the response
+  const readMessage = async (response: Response): Promise<any> => {
+    const text = await response.text();
+    if (response.headers.get('content-type')?.includes('application/json')) {
+      return JSON.parse(text);
+    }
+    const data = text.split('\n').filter(line => line.startsWith('data: ')).pop();
+    return JSON.parse(data!.slice('data: '.length));
+  };
+
+  const health = async () => readJson(await fetch(`${baseUrl}/health`));
+
+  beforeEach(async () => {
+    serversCreated = 0;
+    transport = new HttpTransportServer(() => {
+      serversCreated++;
+      const server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+      return server;
+    });
+    const httpServer = await transport.listen(0);
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  it('should report health with the open session count', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await readJson(response)).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('should answer unknown paths with 404', async () => {
+    const response = await fetch(`${baseUrl}/unknown`);
+    expect(response.status).toBe(404);
+  });
+
+  describe('Streamable HTTP', () => {
+    it('should open a session on initialize and reuse it by session ID', async () => {
+      const response = await post(MCP_ENDPOINT, initialize);
+      const sessionId = response.headers.get('mcp-session-id');
+
+      expect(response.status).toBe(200);
+      expect(sessionId).toBeTruthy();
+      expect((await readMessage(response)).result.serverInfo.name).toBe('test-server');
+      expect(transport.getSessionCount()).toBe(1);
+
+      const headers = { 'mcp-session-id': sessionId!, 'mcp-protocol-version': LATEST_PROTOCOL_VERSION };
+      const initialized = await post(MCP_ENDPOINT, { jsonrpc: '2.0', method: 'notifications/initialized' }, headers);
+      expect(initialized.status).toBe(202);
+
+      const list = await post(MCP_ENDPOINT, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, headers);
+      expect(list.status).toBe(200);
+      expect(await readMessage(list)).toEqual({ jsonrpc: '2.0', id: 2, result: { tools: [] } });
+
+      // One MCP server for the session, not one per request
+      expect(serversCreated).toBe(1);
+      expect((await health()).sessions).toBe(1);
+    });
+
+    it('should reject requests without a session that are not an initialize', async () => {
+      const response = await post(MCP_ENDPOINT, { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+      expect(response.status).toBe(400);
+      expect((await readJson(response)).error.message).toContain('No valid session ID');
+      expect(serversCreated).toBe(0);
+    });
+
+    it('should reject unknown session IDs', async () => {
+      const response = await post(
+        MCP_ENDPOINT,
+        { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+        { 'mcp-session-id': 'missing' }
+      );
+
+      expect(response.status).toBe(404);
+      expect((await readJson(response)).error.message).toBe('Session not found');
+    });
+  });
+
+  describe('SSE', () => {
+    it('should route posted messages to the session stream', async () => {
+      const controller = new AbortController();
+      const stream = await fetch(`${baseUrl}${SSE_ENDPOINT}`, { signal: controller.signal });
+      const reader = stream.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+
+      const nextEvent = async () => {
+        while (!buffered.includes('\n\n')) {
+          const { value } = await reader.read();
+          buffered += decoder.decode(value, { stream: true });
+        }
+        const [event, rest] = [buffered.slice(0, buffered.indexOf('\n\n')), buffered.slice(buffered.indexOf('\n\n') + 2)];
+        buffered = rest;
+        const field = (name: string) => event.split('\n').find(line => line.startsWith(`${name}: `))?.slice(name.length + 2);
+        return { event: field('event'), data: field('data')! };
+      };
+
+      try {
+        const endpoint = await nextEvent();
+        expect(endpoint.event).toBe('endpoint');
+        expect(endpoint.data).toMatch(/^\/messages\?sessionId=/);
+        expect(transport.getSessionCount()).toBe(1);
+
+        const accepted = await post(endpoint.data, initialize);
+        expect(accepted.status).toBe(202);
+
+        const message = await nextEvent();
+        expect(message.event).toBe('message');
+        expect(JSON.parse(message.data)).toMatchObject({ id: 1, result: { serverInfo: { name: 'test-server' } } });
+      } finally {
+        controller.abort();
+      }
+    });
+
+    it('should reject messages for unknown SSE sessions', async () => {
+      const response = await post('/messages?sessionId=missing', initialize);
+
+      expect(response.status).toBe(404);
+      expect((await readJson(response)).error.message).toBe('Session not found');
+    });
+  });
+});
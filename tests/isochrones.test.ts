@@ -0,0 +1,175 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import nock from 'nock';
+import * as turf from '@turf/turf';
+import cache from '../src/services/cache/cache.service';
+import routingService from '../src/services/routing/routing.service';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { OfflineProvider } from '../src/services/routing/offline/offline.provider';
+import { toolRegistry } from '../src/tools';
+import { GeoPin } from '../src/types';
+import { RoutingProvider } from '../src/types/routing.types';
+import { callTool, createTestPin } from './test-utils';
+
+describe('Isochrones', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+    spatialIndex.clear();
+
+    nock('https://overpass-api.de')
+      .persist()
+      .post('/api/interpreter')
+      .reply(200, { elements: [] });
+  });
+
+  afterAll(() => {
+    nock.cleanAll();
+  });
+
+  it('should estimate growing areas without a routing provider', async () => {
+    const data = await callTool('get_isochrones', { location: { lat: 51.5, lng: -0.1 }, ranges: [15, 5, 10] });
+
+    expect(data.source).toBe('estimate');
+    expect(data.profile).toBe('walking');
+    expect(data.isochrones.type).toBe('FeatureCollection');
+
+    const features = data.isochrones.features;
+    expect(features.map((f: any) => [f.properties.value, f.properties.unit])).toEqual([
+      [5, 'minutes'],
+      [10, 'minutes'],
+      [15, 'minutes'],
+    ]);
+    expect(features[0].properties.area).toBeLessThan(features[1].properties.area);
+    expect(features[1].properties.area).toBeLessThan(features[2].properties.area);
+    expect(turf.booleanPointInPolygon([-0.1, 51.5], features[0])).toBe(true);
+  });
+
+  it('should list the pins inside each area, nearest first', async () => {
+    spatialIndex.addPin(createTestPin('near', 51.502, -0.1));
+    spatialIndex.addPin(createTestPin('middle', 51.5, -0.095));
+    spatialIndex.addPin(createTestPin('landmark', 51.501, -0.1, { type: 'landmark' }));
+    spatialIndex.addPin(createTestPin('far', 51.55, -0.1));
+
+    const data = await callTool('get_isochrones', {
+      location: { lat: 51.5, lng: -0.1 },
+      rangeType: 'distance',
+      ranges: [300, 600],
+      includePins: true,
+      types: ['poi'],
+    });
+
+    const [inner, outer] = data.isochrones.features;
+    expect(inner.properties.unit).toBe('meters');
+    expect(inner.properties.pins.map((pin: GeoPin) => pin.id)).toEqual(['near']);
+    expect(outer.properties.pins.map((pin: GeoPin) => pin.id)).toEqual(['near', 'middle']);
+    expect(outer.properties.pinCount).toBe(2);
+  });
+
+  it('should fetch general POIs rather than filtering Overpass by pin type', async () => {
+    const queries: string[] = [];
+    nock.cleanAll();
+    nock('https://overpass-api.de')
+      .post('/api/interpreter', (body: { data: string }) => {
+        queries.push(body.data);
+        return true;
+      })
+      .reply(200, { elements: [] });
+    cache.flush();
+
+    await callTool('get_isochrones', {
+      location: { lat: 51.6, lng: -0.2 },
+      ranges: [10],
+      includePins: true,
+      types: ['landmark'],
+    });
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain('["tourism"]');
+    expect(queries[0]).not.toContain('landmark');
+    expect(queries[0]).not.toMatch(/node\(around:/);
+  });
+
+  it('should cap the number of listed pins', async () => {
+    spatialIndex.addPin(createTestPin('a', 51.5005, -0.1));
+    spatialIndex.addPin(createTestPin('b', 51.501, -0.1));
+
+    const data = await callTool('get_isochrones', { location: { lat: 51.5, lng: -0.1 }, ranges: [10], includePins: true, maxPins: 1 });
+
+    const [feature] = data.isochrones.features;
+    expect(feature.properties.pinCount).toBe(2);
+    expect(feature.properties.pins.map((pin: GeoPin) => pin.id)).toEqual(['a']);
+  });
+
+  it('should reject ranges beyond the limits', async () => {
+    await expect(toolRegistry.call('get_isochrones', { location: { lat: 51.5, lng: -0.1 }, ranges: [90] }))
+      .rejects.toThrow('Ranges are limited to 60 minutes or 50000 meters');
+  });
+
+  it('should ask the provider again after a failed request', async () => {
+    const service = routingService as unknown as { provider: RoutingProvider | null };
+    const original = service.provider;
+    let failing = true;
+    service.provider = {
+      name: 'openrouteservice',
+      supportsAlternatives: true,
+      route: async () => [],
+      isochrones: async request => {
+        if (failing) {
+          throw new Error('Service unavailable');
+        }
+        const center = turf.point([request.location.lng, request.location.lat]);
+        return request.ranges.map(range => ({
+          type: 'Feature' as const,
+          geometry: turf.circle(center, 0.5, { units: 'kilometers' }).geometry,
+          properties: { value: range, rangeType: request.rangeType },
+        }));
+      },
+    };
+
+    try {
+      cache.flush();
+      const args = { location: { lat: 51.5, lng: -0.1 }, ranges: [10] };
+      expect((await callTool('get_isochrones', args)).source).toBe('estimate');
+
+      failing = false;
+      expect((await callTool('get_isochrones', args)).source).toBe('openrouteservice');
+    } finally {
+      service.provider = original;
+    }
+  });
+
+  it('should compute offline areas from the road graph', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'geocontext-iso-'));
+    try {
+      // A 2 km straight street going east
+      const path = join(directory, 'street.osm');
+      writeFileSync(path, [
+        '<osm version="0.6">',
+        ...[0, 1, 2, 3, 4].map(i => `<node id="${i + 1}" lat="51.5" lon="${(-0.1 + i * 0.0072).toFixed(4)}"/>`),
+        '<way id="1">',
+        ...[1, 2, 3, 4, 5].map(ref => `<nd ref="${ref}"/>`),
+        '<tag k="highway" v="residential"/>',
+        '</way>',
+        '</osm>',
+      ].join('\n'));
+
+      const provider = new OfflineProvider(path);
+      const features = await provider.isochrones({
+        location: { lat: 51.5, lng: -0.1 },
+        profile: 'walking',
+        rangeType: 'distance',
+        ranges: [500, 1000],
+      });
+
+      expect(features.map(f => f.properties.value)).toEqual([500, 1000]);
+      // The street is reachable up to the limit (0.0072° is about 500 m here), but not past it
+      expect(turf.booleanPointInPolygon([-0.1 + 0.005, 51.5], features[0])).toBe(true);
+      expect(turf.booleanPointInPolygon([-0.1 + 0.008, 51.5], features[0])).toBe(false);
+      expect(turf.booleanPointInPolygon([-0.1 + 0.013, 51.5], features[1])).toBe(true);
+      expect(turf.booleanPointInPolygon([-0.1 + 0.016, 51.5], features[1])).toBe(false);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import nock from 'nock';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { LocationResolver } from '../src/services/enrichment/location-resolver';
+import { toolRegistry } from '../src/tools';
+
+describe('LocationResolver', () => {
+  const eiffelTower = {
+    place_id: 1,
+    display_name: 'Tour Eiffel, Avenue Gustave Eiffel, Paris, France',
+    lat: '48.8584',
+    lon: '2.2945',
+    osm_type: 'way',
+    osm_id: 5013364,
+    importance: 0.9,
+  };
+  const eiffelShop = {
+    place_id: 2,
+    display_name: 'Eiffel Tower Souvenirs, Las Vegas, United States',
+    lat: '36.1125',
+    lon: '-115.1728',
+    importance: 0.2,
+  };
+
+  beforeEach(() => {
+    nock.cleanAll();
+    spatialIndex.clear();
+  });
+
+  it('should pass coordinates through without geocoding', async () => {
+    const resolver = new LocationResolver();
+    const location = await resolver.resolve('start', { lat: 1, lng: 2 });
+
+    expect(location).toEqual({ lat: 1, lng: 2 });
+    expect(resolver.resolutions()).toHaveLength(0);
+    expect(resolver.annotate({ ok: true })).toEqual({ ok: true });
+  });
+
+  it('should geocode place names once and report alternatives', async () => {
+    const scope = nock('https://nominatim.openstreetmap.org')
+      .get('/search')
+      .query(query => query.q === 'Eiffel Tower resolver test')
+      .once()
+      .reply(200, [eiffelShop, eiffelTower]);
+
+    const resolver = new LocationResolver();
+    const start = await resolver.resolve('start', 'Eiffel Tower resolver test');
+    const end = await resolver.resolve('end', 'Eiffel Tower resolver test');
+
+    expect(start).toEqual({ lat: 48.8584, lng: 2.2945 });
+    expect(end).toEqual(start);
+    expect(resolver.resolutions().map(r => r.field)).toEqual(['start', 'end']);
+    expect(resolver.resolutions()[0].alternatives.map(c => c.displayName)).toEqual([eiffelShop.display_name]);
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it('should geocode address objects as free text', async () => {
+    nock('https://nominatim.openstreetmap.org')
+      .get('/search')
+      .query(query => query.q === '10 Downing Street, London, United Kingdom')
+      .reply(200, [{ place_id: 3, display_name: '10 Downing Street, London', lat: '51.5034', lon: '-0.1276' }]);
+
+    const resolver = new LocationResolver();
+    const location = await resolver.resolve('location', {
+      street: '10 Downing Street',
+      city: 'London',
+      country: 'United Kingdom',
+    });
+
+    expect(location).toEqual({ lat: 51.5034, lng: -0.1276 });
+  });
+
+  it('should fail when nothing matches', async () => {
+    nock('https://nominatim.openstreetmap.org')
+      .get('/search')
+      .query(true)
+      .reply(200, []);
+
+    const resolver = new LocationResolver();
+    const error = await resolver.resolve('end', 'Nowhere at all').catch(e => e);
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.message).toContain('Could not resolve end: no place found');
+  });
+
+  it('should report geocoder failures as upstream errors without caching them', async () => {
+    nock('https://nominatim.openstreetmap.org')
+      .get('/search')
+      .query(query => query.q === 'Geocoder outage test')
+      .reply(503, 'Service Unavailable');
+
+    const failing = new LocationResolver();
+    const error = await failing.resolve('start', 'Geocoder outage test').catch(e => e);
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.message).toContain('Could not resolve start: geocoding failed');
+
+    nock('https://nominatim.openstreetmap.org')
+      .get('/search')
+      .query(query => query.q === 'Geocoder outage test')
+      .reply(200, [eiffelTower]);
+
+    const location = await new LocationResolver().resolve('start', 'Geocoder outage test');
+    expect(location).toEqual({ lat: 48.8584, lng: 2.2945 });
+  });
+
+  it('should resolve place names in tool arguments and report them', async () => {
+    nock('https://nominatim.openstreetmap.org')
+      .get('/search')
+      .query(query => query.q === 'Eiffel Tower, Paris')
+      .reply(200, [eiffelTower]);
+
+    spatialIndex.addPin({
+      id: 'pin_eiffel',
+      location: { lat: 48.8584, lng: 2.2945 },
+      radius: 50,
+      type: 'landmark',
+      data: { name: 'Eiffel Tower', description: 'Wrought-iron tower', category: [] },
+      metadata: {
+        source: 'test',
+        lastUpdated: new Date(),
+        verificationStatus: 'verified',
+        languages: ['en'],
+        tags: [],
+      },
+    });
+
+    const result = await toolRegistry.call('get_nearby_context', {
+      location: 'Eiffel Tower, Paris',
+      radius: 100,
+      maxResults: 1,
+    });
+    const data = JSON.parse(result.content[0].text);
+
+    expect(data.location).toEqual({ lat: 48.8584, lng: 2.2945 });
+    expect(data.pins[0].id).toBe('pin_eiffel');
+    expect(data.resolvedLocations[0]).toMatchObject({
+      field: 'location',
+      query: 'Eiffel Tower, Paris',
+      displayName: eiffelTower.display_name,
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import nock from 'nock';
+import routeStore from '../src/services/routing/route-store.service';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { toolRegistry } from '../src/tools';
+
+describe('Route maneuvers', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+    routeStore.clear();
+    spatialIndex.clear();
+
+    nock('https://overpass-api.de')
+      .persist()
+      .post('/api/interpreter')
+      .reply(200, { elements: [] });
+  });
+
+  afterAll(() => {
+    nock.cleanAll();
+  });
+
+  const generateRoute = async (args: Record<string, unknown>) => {
+    const result = await toolRegistry.call('generate_route', args);
+    return JSON.parse(result.content[0].text);
+  };
+
+  it('should link every maneuver to a coordinate range', async () => {
+    const data = await generateRoute({
+      start: { lat: 51.5, lng: -0.2 },
+      end: { lat: 51.5, lng: 0 },
+      waypoints: [{ lat: 51.56, lng: -0.1 }],
+    });
+
+    const { coordinates, maneuvers, language } = data.route;
+    expect(language).toBe('en');
+    expect(maneuvers.map((m: any) => m.type)).toEqual(['depart', 'straight', 'arrive']);
+    expect(maneuvers[0]).toMatchObject({ startIndex: 0, endIndex: 1, instruction: 'Head northeast towards waypoint 1' });
+    expect(maneuvers[1]).toMatchObject({ startIndex: 1, endIndex: 2, instruction: 'Continue southeast towards your destination' });
+    expect(maneuvers[2]).toMatchObject({ startIndex: coordinates.length - 1, endIndex: coordinates.length - 1 });
+
+    const total = maneuvers.reduce((sum: number, m: any) => sum + m.distance, 0);
+    expect(total).toBeCloseTo(data.route.distance, 0);
+  });
+
+  it('should reject unsupported instruction languages', async () => {
+    await expect(generateRoute({
+      start: { lat: 51.5, lng: -0.2 },
+      end: { lat: 51.5, lng: 0 },
+      language: 'xx',
+    })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,301 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deflateSync } from 'zlib';
+import { OfflineProvider } from '../src/services/routing/offline/offline.provider';
+import { RoadGraph } from '../src/services/routing/offline/road-graph';
+import { parseOsmXml } from '../src/services/routing/offline/osm-xml.parser';
+import { parseOsmPbf } from '../src/services/routing/offline/osm-pbf.parser';
+import { getWaySpeed, getOnewayDirection, parseMaxSpeed } from '../src/services/routing/offline/road-profiles';
+import { OsmExtract } from '../src/types/routing.types';
+
+/*
+ *  5 ---Park Lane (oneway east, 50)--- 4
+ *  |                               /   |
+ *  King's Road (50)     footway  /     North Road (30)
+ *  |                         /         |
+ *  1 ------ High Street (30) ---- 2 -- 3
+ */
+const NODES: Array<[number, number, number]> = [
+  [1, 51.5, -0.1],
+  [2, 51.5, -0.095],
+  [3, 51.5, -0.09],
+  [4, 51.505, -0.09],
+  [5, 51.505, -0.1],
+];
+
+const WAYS: Array<{ id: number; nodes: number[]; tags: Record<string, string> }> = [
+  { id: 10, nodes: [1, 2, 3], tags: { highway: 'residential', name: 'High Street', maxspeed: '30' } },
+  { id: 11, nodes: [3, 4], tags: { highway: 'residential', name: 'North Road', maxspeed: '30' } },
+  { id: 12, nodes: [5, 4], tags: { highway: 'tertiary', name: 'Park Lane', maxspeed: '50', oneway: 'yes' } },
+  { id: 13, nodes: [1, 5], tags: { highway: 'tertiary', name: "King's Road", maxspeed: '50' } },
+  { id: 14, nodes: [1, 4], tags: { highway: 'footway' } },
+  { id: 15, nodes: [2, 3], tags: { building: 'yes' } },
+];
+
+const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/'/g, '&apos;').replace(/"/g, '&quot;');
+
+const OSM_XML = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<osm version="0.6" generator="test">',
+  ...NODES.map(([id, lat, lon]) => `  <node id="${id}" version="1" lat="${lat}" lon="${lon}"/>`),
+  ...WAYS.map(way => [
+    `  <way id="${way.id}" version="1">`,
+    ...way.nodes.map(ref => `    <nd ref="${ref}"/>`),
+    ...Object.entries(way.tags).map(([k, v]) => `    <tag k="${k}" v="${escape(v)}"/>`),
+    '  </way>',
+  ].join('\n')),
+  '</osm>',
+].join('\n');
+
+// Minimal protobuf writer to build a PBF fixture of the same network
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+const zigzag = (value: number) => (value < 0 ? -2 * value - 1 : 2 * value);
+const field = (number: number, wireType: number) => varint(number * 8 + wireType);
+const bytesField = (number: number, bytes: number[] | Buffer) => [...field(number, 2), ...varint(bytes.length), ...bytes];
+const packed = (number: number, values: number[]) => bytesField(number, values.flatMap(varint));
+const deltas = (values: number[]) => values.map((value, i) => value - (i > 0 ? values[i - 1] : 0));
+
+function buildPbf(requiredFeatures: string[] = ['OsmSchema-V0.6', 'DenseNodes']): Buffer {
+  const strings = [''];
+  const stringIndex = (value: string) => {
+    if (!strings.includes(value)) {
+      strings.push(value);
+    }
+    return strings.indexOf(value);
+  };
+
+  const dense = [
+    ...packed(1, deltas(NODES.map(([id]) => id)).map(zigzag)),
+    ...packed(8, deltas(NODES.map(([, lat]) => Math.round(lat * 1e7))).map(zigzag)),
+    ...packed(9, deltas(NODES.map(([, , lon]) => Math.round(lon * 1e7))).map(zigzag)),
+  ];
+  const ways = WAYS.map(way => bytesField(3, [
+    ...field(1, 0), ...varint(way.id),
+    ...packed(2, Object.keys(way.tags).map(stringIndex)),
+    ...packed(3, Object.values(way.tags).map(stringIndex)),
+    ...packed(8, deltas(way.nodes).map(zigzag)),
+  ]));
+  const groups = [...bytesField(2, bytesField(2, dense)), ...bytesField(2, ways.flat())];
+  const block = [
+    ...bytesField(1, strings.flatMap(value => bytesField(1, Buffer.from(value)))),
+    ...groups,
+    ...field(17, 0), ...varint(100),
+  ];
+
+  const fileBlock = (type: string, payload: number[], compress: boolean) => {
+    const blob = compress
+      ? [...field(2, 0), ...varint(payload.length), ...bytesField(3, deflateSync(Buffer.from(payload)))]
+      : bytesField(1, payload);
+    const header = [...bytesField(1, Buffer.from(type)), ...field(3, 0), ...varint(blob.length)];
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(header.length);
+    return Buffer.concat([length, Buffer.from(header), Buffer.from(blob)]);
+  };
+
+  return Buffer.concat([
+    fileBlock('OSMHeader', requiredFeatures.flatMap(feature => bytesField(4, Buffer.from(feature))), false),
+    fileBlock('OSMData', block, true),
+  ]);
+}
+
+describe('Offline routing', () => {
+  let extract: OsmExtract;
+  let directory: string;
+
+  beforeAll(() => {
+    extract = parseOsmXml(OSM_XML);
+    directory = mkdtempSync(join(tmpdir(), 'geocontext-osm-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('Extract parsing', () => {
+    it('should read nodes, ways and escaped tags from XML', () => {
+      expect(extract.nodes.size).toBe(5);
+      expect(extract.nodes.get(4)).toEqual([-0.09, 51.505]);
+      expect(extract.ways).toHaveLength(6);
+      expect(extract.ways[3]).toEqual({ id: 13, nodeIds: [1, 5], tags: { highway: 'tertiary', name: "King's Road", maxspeed: '50' } });
+    });
+
+    it('should read the same network from PBF', () => {
+      const pbf = parseOsmPbf(buildPbf());
+
+      expect(pbf.ways).toEqual(extract.ways);
+      extract.nodes.forEach(([lng, lat], id) => {
+        expect(pbf.nodes.get(id)![0]).toBeCloseTo(lng, 7);
+        expect(pbf.nodes.get(id)![1]).toBeCloseTo(lat, 7);
+      });
+    });
+
+    it('should reject PBF files that require features the reader lacks', () => {
+      expect(() => parseOsmPbf(buildPbf(['OsmSchema-V0.6', 'DenseNodes', 'HistoricalInformation'])))
+        .toThrow('Unsupported PBF features required: HistoricalInformation');
+    });
+  });
+
+  describe('Road profiles', () => {
+    it('should take speeds from maxspeed and highway class', () => {
+      expect(parseMaxSpeed('30 mph')).toBeCloseTo(48.3, 1);
+      expect(parseMaxSpeed('none')).toBeNull();
+      expect(getWaySpeed({ highway: 'primary' }, 'driving')).toBe(70);
+      expect(getWaySpeed({ highway: 'primary', maxspeed: '40' }, 'driving')).toBe(40);
+      expect(getWaySpeed({ highway: 'residential', maxspeed: '30' }, 'cycling')).toBe(18);
+      expect(getWaySpeed({ highway: 'motorway' }, 'walking')).toBeNull();
+      expect(getWaySpeed({ highway: 'steps' }, 'wheelchair')).toBeNull();
+      expect(getWaySpeed({ highway: 'footway', bicycle: 'yes' }, 'cycling')).toBe(10);
+      expect(getWaySpeed({ highway: 'residential', access: 'private', foot: 'yes' }, 'walking')).toBe(5);
+    });
+
+    it('should apply oneway rules per profile', () => {
+      expect(getOnewayDirection({ highway: 'residential', oneway: 'yes' }, 'driving')).toBe(1);
+      expect(getOnewayDirection({ highway: 'residential', oneway: 'yes' }, 'walking')).toBe(0);
+      expect(getOnewayDirection({ highway: 'residential', oneway: 'yes', 'oneway:bicycle': 'no' }, 'cycling')).toBe(0);
+      expect(getOnewayDirection({ highway: 'primary', junction: 'roundabout' }, 'driving')).toBe(1);
+      expect(getOnewayDirection({ highway: 'primary', oneway: '-1' }, 'driving')).toBe(-1);
+    });
+  });
+
+  describe('Road graph', () => {
+    it('should prefer faster roads and respect oneway streets when driving', () => {
+      const graph = RoadGraph.build(extract, 'driving');
+      const node = (lat: number, lng: number) => graph.nearestNode({ lat, lng })!.node;
+
+      const outbound = graph.shortestPath(node(51.5, -0.1), node(51.505, -0.09))!;
+      expect(outbound.nodes.map(n => graph.coordinate(n))).toEqual([[-0.1, 51.5], [-0.1, 51.505], [-0.09, 51.505]]);
+      expect(outbound.duration).toBeCloseTo(outbound.distance / (50 / 3.6), 5);
+
+      // Park Lane is oneway, so the way back takes the slower streets
+      const inbound = graph.shortestPath(node(51.505, -0.09), node(51.5, -0.1))!;
+      expect(inbound.edges.map(edge => edge.name)).toEqual(['North Road', 'High Street', 'High Street']);
+      expect(inbound.duration).toBeCloseTo(inbound.distance / (30 / 3.6), 5);
+    });
+
+    it('should only use footways when walking', () => {
+      const walking = RoadGraph.build(extract, 'walking');
+      const from = walking.nearestNode({ lat: 51.5, lng: -0.1 })!.node;
+      const to = walking.nearestNode({ lat: 51.505, lng: -0.09 })!.node;
+
+      const path = walking.shortestPath(from, to)!;
+      expect(path.nodes).toHaveLength(2);
+      expect(path.duration).toBeCloseTo(path.distance / (5 / 3.6), 5);
+    });
+
+    it('should snap to the nearest routable node at any distance', () => {
+      const graph = RoadGraph.build(extract, 'driving');
+
+      const near = graph.nearestNode({ lat: 51.5049, lng: -0.0901 })!;
+      expect(graph.coordinate(near.node)).toEqual([-0.09, 51.505]);
+      expect(near.distance).toBeLessThan(20);
+
+      // Far beyond the first search boxes, and across the antimeridian from the network
+      const far = graph.nearestNode({ lat: -40, lng: 179.9 })!;
+      expect(graph.coordinate(far.node)).toEqual([-0.09, 51.505]);
+      expect(far.distance).toBeGreaterThan(15e6);
+    });
+  });
+
+  describe('Provider', () => {
+    it('should route on an extract file with maneuvers', async () => {
+      const path = join(directory, 'network.osm');
+      writeFileSync(path, OSM_XML);
+      const provider = new OfflineProvider(path);
+
+      const [route] = await provider.route({
+        locations: [{ lat: 51.5001, lng: -0.1001 }, { lat: 51.5049, lng: -0.0901 }],
+        profile: 'driving',
+        language: 'de',
+      });
+
+      expect(route.language).toBe('en');
+      expect(route.coordinates).toEqual([[-0.1, 51.5], [-0.1, 51.505], [-0.09, 51.505]]);
+      expect(route.maneuvers!.map(m => [m.type, m.instruction, m.startIndex, m.endIndex])).toEqual([
+        ['depart', "Depart on King's Road", 0, 1],
+        ['turn_right', 'Turn right onto Park Lane', 1, 2],
+        ['arrive', 'Arrive at your destination', 2, 2],
+      ]);
+    });
+
+    it('should load PBF extracts and report a U-turn at a waypoint', async () => {
+      const path = join(directory, 'network.osm.pbf');
+      writeFileSync(path, buildPbf());
+      const provider = new OfflineProvider(path);
+
+      const [route] = await provider.route({
+        locations: [{ lat: 51.5, lng: -0.1 }, { lat: 51.5, lng: -0.095 }, { lat: 51.5, lng: -0.1 }],
+        profile: 'walking',
+        language: 'en',
+      });
+
+      expect(route.maneuvers!.map(m => m.type)).toEqual(['depart', 'u_turn', 'arrive']);
+      expect(route.maneuvers![1]).toMatchObject({ startIndex: 1, endIndex: 2, streetName: 'High Street' });
+    });
+
+    it('should compute a matrix along the fastest paths', async () => {
+      const path = join(directory, 'network.osm');
+      writeFileSync(path, OSM_XML);
+      const provider = new OfflineProvider(path);
+      const graph = await provider.getGraph('driving');
+      const node = (lat: number, lng: number) => graph.nearestNode({ lat, lng })!.node;
+
+      const matrix = await provider.matrix({
+        sources: [{ lat: 51.5, lng: -0.1 }, { lat: 52, lng: 0 }],
+        destinations: [{ lat: 51.505, lng: -0.09 }, { lat: 51.5, lng: -0.1 }],
+        profile: 'driving',
+      });
+
+      const outbound = graph.shortestPath(node(51.5, -0.1), node(51.505, -0.09))!;
+      expect(matrix.durations[0][0]).toBeCloseTo(outbound.duration, 5);
+      expect(matrix.distances[0][0]).toBeCloseTo(outbound.distance, 5);
+      expect(matrix.durations[0][1]).toBe(0);
+      expect(matrix.durations[1]).toEqual([null, null]);
+    });
+
+    it('should build every profile graph when warmed up', async () => {
+      const path = join(directory, 'network.osm');
+      writeFileSync(path, OSM_XML);
+      const provider = new OfflineProvider(path);
+
+      await provider.warmUp();
+
+      const [walking, driving] = await Promise.all([provider.getGraph('walking'), provider.getGraph('driving')]);
+      expect(await provider.getGraph('walking')).toBe(walking);
+      expect(walking.size).toBe(5);
+      expect(driving.size).toBe(5);
+      // The parsed extract isn't kept alongside the graphs
+      expect((provider as unknown as { extract: unknown }).extract).toBeNull();
+    });
+
+    it('should retry loading after a failed warm-up', async () => {
+      const path = join(directory, 'late.osm');
+      const provider = new OfflineProvider(path);
+
+      await expect(provider.warmUp()).resolves.toBeUndefined();
+
+      writeFileSync(path, OSM_XML);
+      await expect(provider.getGraph('driving')).resolves.toBeInstanceOf(RoadGraph);
+    });
+
+    it('should not route locations far from the road network', async () => {
+      const path = join(directory, 'network.osm');
+      writeFileSync(path, OSM_XML);
+      const provider = new OfflineProvider(path);
+
+      await expect(provider.route({
+        locations: [{ lat: 51.5, lng: -0.1 }, { lat: 52, lng: 0 }],
+        profile: 'walking',
+        language: 'en',
+      })).resolves.toEqual([]);
+    });
+  });
+});
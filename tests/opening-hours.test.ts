@@ -0,0 +1,142 @@
+import nock from 'nock';
+import cache from '../src/services/cache/cache.service';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { GeoPin } from '../src/types';
+import { earliestVisitStart, openIntervals, parseOpeningHours } from '../src/utils/opening-hours';
+import { callTool } from './test-utils';
+
+describe('Opening hours', () => {
+  describe('parseOpeningHours', () => {
+    it('should read weekday rules with later rules overriding earlier ones', () => {
+      const week = parseOpeningHours('Mo-Fr 09:00-17:00; Sa 10:00-12:00, 13:00-16:00; We off')!;
+
+      expect(week[0]).toEqual([[540, 1020]]);
+      expect(week[2]).toEqual([]);
+      expect(week[5]).toEqual([[600, 720], [780, 960]]);
+      expect(week[6]).toEqual([]);
+    });
+
+    it('should handle 24/7, wrapping day ranges and hours past midnight', () => {
+      expect(parseOpeningHours('24/7')!.every(day => day[0][1] === 1440)).toBe(true);
+
+      const week = parseOpeningHours('Fr-Mo 18:00-02:00; PH off')!;
+      expect(week.map(day => day.length)).toEqual([1, 0, 0, 0, 1, 1, 1]);
+      expect(week[4]).toEqual([[1080, 1560]]);
+    });
+
+    it('should reject syntax it does not understand', () => {
+      expect(parseOpeningHours('Jan-Mar Mo-Fr 09:00-17:00')).toBeNull();
+      expect(parseOpeningHours('Mo-Fr sunrise-sunset')).toBeNull();
+      expect(parseOpeningHours('')).toBeNull();
+    });
+  });
+
+  describe('open intervals', () => {
+    // Monday 1 June 2026, 09:00 in Paris (UTC+2)
+    const monday9am = Date.parse('2026-06-01T07:00:00Z');
+
+    it('should place local hours in the time zone', () => {
+      const week = parseOpeningHours('Mo 10:00-12:00')!;
+      expect(openIntervals(week, monday9am, monday9am + 8 * 3600000, 'Europe/Paris')).toEqual([
+        [Date.parse('2026-06-01T08:00:00Z'), Date.parse('2026-06-01T10:00:00Z')],
+      ]);
+    });
+
+    it('should include hours carried over from the evening before', () => {
+      const week = parseOpeningHours('Su 22:00-02:00')!;
+      const intervals = openIntervals(week, Date.parse('2026-06-01T00:00:00Z'), Date.parse('2026-06-01T03:00:00Z'), 'UTC');
+      expect(intervals).toEqual([[Date.parse('2026-05-31T22:00:00Z'), Date.parse('2026-06-01T02:00:00Z')]]);
+    });
+
+    it('should wait for opening only within the allowed time', () => {
+      const week = parseOpeningHours('Mo 09:30-10:00')!;
+      expect(earliestVisitStart(week, monday9am, 20, 60, 'Europe/Paris')).toBe(Date.parse('2026-06-01T07:30:00Z'));
+      expect(earliestVisitStart(week, monday9am, 20, 15, 'Europe/Paris')).toBeNull();
+      expect(earliestVisitStart(week, monday9am, 45, 60, 'Europe/Paris')).toBeNull();
+    });
+  });
+
+  describe('schedule_itinerary tool', () => {
+    const createPin = (id: string, lng: number, visitingHours?: string): GeoPin => ({
+      id,
+      location: { lat: 48.86, lng },
+      radius: 10,
+      type: 'cultural',
+      data: {
+        name: `Stop ${id}`,
+        description: 'Test description',
+        category: ['test'],
+        visitingHours,
+      },
+      metadata: {
+        source: 'test',
+        lastUpdated: new Date(),
+        verificationStatus: 'verified',
+        languages: ['en'],
+        tags: [],
+      },
+    });
+
+    const start = { lat: 48.86, lng: 2.33 };
+    // Monday 1 June 2026, 09:00 in Paris
+    const departureTime = '2026-06-01T09:00:00+02:00';
+
+    beforeEach(() => {
+      nock.cleanAll();
+      cache.flush();
+      spatialIndex.clear();
+    });
+
+    it('should keep the requested order when every stop is open', async () => {
+      spatialIndex.addPin(createPin('a', 2.331, 'Mo-Fr 08:00-18:00'));
+      spatialIndex.addPin(createPin('b', 2.332));
+      spatialIndex.addPin(createPin('c', 2.333, 'sunrise-sunset'));
+
+      const data = await callTool('schedule_itinerary', {
+        start,
+        pinIds: ['a', 'b', 'c'],
+        departureTime,
+        timeZone: 'Europe/Paris',
+        dwellTimes: { cultural: 30 },
+      });
+
+      expect(data.reordered).toBe(false);
+      expect(data.itinerary.map((stop: any) => stop.pin.id)).toEqual(['a', 'b', 'c']);
+      expect(data.itinerary[0]).toMatchObject({ waitMinutes: 0, dwellMinutes: 30 });
+      expect(Date.parse(data.itinerary[1].arrival)).toBeGreaterThanOrEqual(Date.parse(data.itinerary[0].departure));
+      expect(data.endTime).toBe(data.itinerary[2].departure);
+      expect(data.skipped).toEqual([]);
+      expect(data.warnings).toEqual([expect.stringContaining('Could not read the opening hours of Stop c')]);
+    });
+
+    it('should reorder stops around opening hours, wait for openings and skip closed stops', async () => {
+      spatialIndex.addPin(createPin('late', 2.331, 'Mo 10:00-18:00'));
+      spatialIndex.addPin(createPin('early', 2.332, 'Mo 09:00-09:45'));
+      spatialIndex.addPin(createPin('closed', 2.333, 'Mo off; Tu-Su 09:00-18:00'));
+
+      const data = await callTool('schedule_itinerary', {
+        start,
+        end: start,
+        pinIds: ['late', 'early', 'closed'],
+        departureTime,
+        timeZone: 'Europe/Paris',
+        dwellTimes: { cultural: 30 },
+        maxWaitMinutes: 60,
+      });
+
+      expect(data.reordered).toBe(true);
+      expect(data.itinerary.map((stop: any) => stop.pin.id)).toEqual(['early', 'late']);
+      const late = data.itinerary[1];
+      expect(Date.parse(late.visitStart)).toBe(Date.parse('2026-06-01T10:00:00+02:00'));
+      expect(late.waitMinutes).toBeGreaterThan(0);
+
+      expect(data.skipped.map((stop: any) => stop.pin.id)).toEqual(['closed']);
+      expect(data.warnings).toEqual([expect.stringContaining('Skipped Stop closed')]);
+      expect(Date.parse(data.endTime)).toBeGreaterThan(Date.parse(late.departure));
+    });
+
+    it('should reject unknown pins', async () => {
+      await expect(callTool('schedule_itinerary', { start, pinIds: ['missing'], departureTime })).rejects.toThrow('Pin not found: missing');
+    });
+  });
+});
@@ -182,6 +182,14 @@ describe('OpenStreetMapService', () => {
 
       expect(result).toBeNull();
     });
+
+    it('should propagate cancellation instead of returning an empty result', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const location: Location = { lat: 48.8584, lng: 2.2945 };
+      await expect(osmService.reverseGeocode(location, controller.signal)).rejects.toThrow('canceled');
+    });
   });
   describe('Place Search', () => {
     it('should search for places by name', async () => {
@@ -0,0 +1,89 @@
+import nock from 'nock';
+import routeStore from '../src/services/routing/route-store.service';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { optimizeStopOrder, tripDuration } from '../src/services/routing/trip-optimizer';
+import { callTool } from './test-utils';
+
+describe('Trip optimization', () => {
+  // Stops along a line; travel time is the gap between positions
+  const lineMatrix = (positions: number[]) => positions.map(a => positions.map(b => Math.abs(a - b)));
+
+  describe('optimizeStopOrder', () => {
+    it('should visit stops along a line in order with a fixed start and end', () => {
+      const durations = lineMatrix([0, 3, 1, 2, 4]);
+      const order = optimizeStopOrder(durations, { fixedStart: true, fixedEnd: true });
+
+      expect(order).toEqual([0, 2, 3, 1, 4]);
+      expect(tripDuration(durations, order)).toBe(4);
+    });
+
+    it('should move the end when it is not fixed', () => {
+      const durations = lineMatrix([0, 4, 1, 2]);
+      expect(optimizeStopOrder(durations, { fixedStart: true, fixedEnd: false })).toEqual([0, 2, 3, 1]);
+    });
+
+    it('should pick the best first stop when the start is not fixed', () => {
+      const durations = lineMatrix([2, 0, 4, 1]);
+      const order = optimizeStopOrder(durations, { fixedStart: false, fixedEnd: false });
+
+      expect(tripDuration(durations, order)).toBe(4);
+      expect([order[0], order[order.length - 1]].sort()).toEqual([1, 2]);
+    });
+
+    it('should avoid pairs without a route', () => {
+      const durations: Array<Array<number | null>> = lineMatrix([0, 1, 2, 3]);
+      durations[0][1] = null;
+
+      const order = optimizeStopOrder(durations, { fixedStart: true, fixedEnd: true });
+      expect(order[1]).not.toBe(1);
+    });
+  });
+
+  describe('optimize_trip tool', () => {
+    beforeEach(() => {
+      nock.cleanAll();
+      routeStore.clear();
+      spatialIndex.clear();
+
+      nock('https://overpass-api.de')
+        .persist()
+        .post('/api/interpreter')
+        .reply(200, { elements: [] });
+    });
+
+    afterAll(() => {
+      nock.cleanAll();
+    });
+
+    it('should reorder waypoints and route them in the new order', async () => {
+      const data = await callTool('optimize_trip', {
+        start: { lat: 51.5, lng: -0.2 },
+        end: { lat: 51.5, lng: -0.1 },
+        waypoints: [{ lat: 51.5, lng: -0.12 }, { lat: 51.5, lng: -0.18 }, { lat: 51.5, lng: -0.15 }],
+        profile: 'cycling',
+      });
+
+      expect(data.order).toEqual([0, 2, 3, 1, 4]);
+      expect(data.matrixSource).toBe('estimate');
+      expect(data.optimizedDuration).toBeLessThan(data.originalDuration);
+      expect(data.savings.duration).toBe(data.originalDuration - data.optimizedDuration);
+      expect(data.savings.percentage).toBeGreaterThan(0);
+
+      const coordinates: number[][] = data.route.route.coordinates;
+      expect(coordinates[0]).toEqual([-0.2, 51.5]);
+      expect(coordinates[coordinates.length - 1]).toEqual([-0.1, 51.5]);
+      expect(routeStore.get(data.route.routeId)).toBeDefined();
+    });
+
+    it('should keep an order that is already the fastest', async () => {
+      const data = await callTool('optimize_trip', {
+        start: { lat: 51.5, lng: -0.2 },
+        end: { lat: 51.5, lng: -0.1 },
+        waypoints: [{ lat: 51.5, lng: -0.18 }, { lat: 51.5, lng: -0.12 }],
+      });
+
+      expect(data.order).toEqual([0, 1, 2, 3]);
+      expect(data.savings.duration).toBe(0);
+    });
+  });
+});
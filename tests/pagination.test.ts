@@ -0,0 +1,115 @@
+import nock from 'nock';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import cache from '../src/services/cache/cache.service';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { clearResultSets, createQueryKey, paginateByDistance } from '../src/utils/pagination';
+import { GeoPin, Location } from '../src/types';
+import { callTool, createTestPin } from './test-utils';
+
+describe('Pagination', () => {
+  const origin: Location = { lat: 51.5074, lng: -0.1278 };
+  const queryKey = createQueryKey('test', origin, 1000);
+
+  // 25 pins at increasing distance, with pairs sharing a location to exercise the ID tie-break
+  const pins = Array.from({ length: 25 }, (_, i) =>
+    createTestPin(`pin${String(i).padStart(2, '0')}`, origin.lat + Math.floor(i / 2) * 0.0001, origin.lng)
+  );
+
+  const walk = (items: GeoPin[], limit: number): string[][] => {
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = paginateByDistance(items, origin, { cursor, limit, queryKey });
+      pages.push(page.items.map(pin => pin.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return pages;
+  };
+
+  it('should walk every pin exactly once, nearest first', () => {
+    const pages = walk([...pins].reverse(), 10);
+
+    expect(pages.map(page => page.length)).toEqual([10, 10, 5]);
+    expect(pages.flat()).toEqual(pins.map(pin => pin.id));
+  });
+
+  it('should report the total and omit the cursor on the last page', () => {
+    const page = paginateByDistance(pins, origin, { limit: 50, queryKey });
+
+    expect(page.total).toBe(25);
+    expect(page.items).toHaveLength(25);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('should keep pages stable when pins are added before the cursor', () => {
+    const first = paginateByDistance(pins, origin, { limit: 10, queryKey });
+    const closer = createTestPin('pin_new', origin.lat, origin.lng);
+    const second = paginateByDistance([closer, ...pins], origin, { cursor: first.nextCursor, limit: 10, queryKey });
+
+    expect(second.items[0].id).toBe('pin10');
+  });
+
+  it('should order by ID when there is no origin', () => {
+    const page = paginateByDistance([...pins].reverse(), null, { limit: 3, queryKey });
+    expect(page.items.map(pin => pin.id)).toEqual(['pin00', 'pin01', 'pin02']);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => paginateByDistance(pins, origin, { cursor: 'not-a-cursor', limit: 10, queryKey }))
+      .toThrow(McpError);
+  });
+
+  it('should reject cursors from a different query', () => {
+    const { nextCursor } = paginateByDistance(pins, origin, { limit: 10, queryKey });
+    const otherKey = createQueryKey('test', origin, 2000);
+
+    expect(() => paginateByDistance(pins, origin, { cursor: nextCursor, limit: 10, queryKey: otherKey }))
+      .toThrow('Cursor does not belong to this query');
+  });
+
+  describe('enrich_location', () => {
+    const node = (id: number, name: string, offset: number) => ({
+      type: 'node',
+      id,
+      lat: origin.lat + offset,
+      lon: origin.lng,
+      tags: { name, tourism: 'museum' },
+    });
+
+    beforeEach(() => {
+      nock.cleanAll();
+      cache.flush();
+      clearResultSets();
+      spatialIndex.clear();
+      nock('https://nominatim.openstreetmap.org').persist().get('/reverse').query(true).reply(200, {});
+    });
+
+    afterAll(() => {
+      nock.cleanAll();
+    });
+
+    it('should continue later pages from the first page\'s result set', async () => {
+      const overpass = nock('https://overpass-api.de')
+        .post('/api/interpreter')
+        .reply(200, { elements: [node(1, 'First', 0.0001), node(2, 'Second', 0.0002), node(3, 'Third', 0.0003)] })
+        .post('/api/interpreter')
+        .reply(200, { elements: [node(4, 'Changed', 0.0001)] });
+
+      const first = await callTool('enrich_location', { location: origin, radius: 100, pageSize: 2 });
+      // An expired OSM cache entry must not swap the result set under the cursor
+      cache.flush();
+      const second = await callTool('enrich_location', {
+        location: origin,
+        radius: 100,
+        pageSize: 2,
+        cursor: first.nextCursor,
+      });
+
+      expect(first.pois.map((p: GeoPin) => p.data.name)).toEqual(['First', 'Second']);
+      expect(second.pois.map((p: GeoPin) => p.data.name)).toEqual(['Third']);
+      expect(second.poisFound).toBe(3);
+      expect(second.nextCursor).toBeUndefined();
+      expect(overpass.pendingMocks()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { callTool } from './test-utils';
+
+describe('Pin lifecycle tools', () => {
+  const createPin = async (name: string, lat: number, lng: number, type = 'landmark') => {
+    const { pin } = await callTool('create_geopin', {
+      location: { lat, lng },
+      type,
+      data: { name, description: `${name} description` },
+    });
+    return pin;
+  };
+
+  beforeEach(() => {
+    spatialIndex.clear();
+  });
+
+  it('should get a pin by ID', async () => {
+    const created = await createPin('Big Ben', 51.5007, -0.1246);
+    const pin = await callTool('get_geopin', { id: created.id });
+
+    expect(pin.data.name).toBe('Big Ben');
+  });
+
+  it('should report unknown pins as not found', async () => {
+    await expect(callTool('get_geopin', { id: 'pin_missing' })).rejects.toThrow('Pin not found: pin_missing');
+    await expect(callTool('delete_geopin', { id: 'pin_missing' })).rejects.toThrow('Pin not found: pin_missing');
+    await expect(callTool('update_geopin', { id: 'pin_missing', radius: 200 })).rejects.toThrow('Pin not found: pin_missing');
+  });
+
+  it('should apply partial updates and re-index moved pins', async () => {
+    const created = await createPin('Statue', 51.5007, -0.1246);
+    const { pin } = await callTool('update_geopin', {
+      id: created.id,
+      location: { lat: 48.8584, lng: 2.2945 },
+      data: { description: 'Moved to Paris' },
+    });
+
+    expect(pin.data).toMatchObject({ name: 'Statue', description: 'Moved to Paris' });
+    expect(pin.radius).toBe(created.radius);
+    expect(spatialIndex.queryByRadius({ lat: 51.5007, lng: -0.1246 }, 500)).toHaveLength(0);
+    expect(spatialIndex.queryByRadius({ lat: 48.8584, lng: 2.2945 }, 500).map(p => p.id)).toEqual([created.id]);
+  });
+
+  it('should reject updates without any changes', async () => {
+    const created = await createPin('Unchanged', 51.5007, -0.1246);
+    await expect(callTool('update_geopin', { id: created.id })).rejects.toThrow('Provide at least one');
+  });
+
+  it('should delete pins', async () => {
+    const created = await createPin('Temporary', 51.5007, -0.1246);
+    await callTool('delete_geopin', { id: created.id });
+
+    expect(spatialIndex.getPinById(created.id)).toBeUndefined();
+  });
+
+  it('should list pins with filters', async () => {
+    await createPin('Landmark', 51.5007, -0.1246, 'landmark');
+    await createPin('Park', 51.5033, -0.1195, 'natural');
+    spatialIndex.addPin({
+      id: 'osm_1',
+      location: { lat: 51.5074, lng: -0.1278 },
+      radius: 50,
+      type: 'natural',
+      data: { name: 'OSM Park', description: 'From OSM', category: [] },
+      metadata: {
+        source: 'openstreetmap',
+        lastUpdated: new Date(),
+        verificationStatus: 'verified',
+        languages: ['en'],
+        tags: [],
+      },
+    });
+
+    const natural = await callTool('list_geopins', { type: 'natural' });
+    expect(natural.totalPins).toBe(2);
+
+    const userNatural = await callTool('list_geopins', { type: 'natural', source: 'user_created' });
+    expect(userNatural.pins.map((p: any) => p.data.name)).toEqual(['Park']);
+
+    const verified = await callTool('list_geopins', { verificationStatus: 'verified' });
+    expect(verified.pins.map((p: any) => p.id)).toEqual(['osm_1']);
+  });
+});
@@ -0,0 +1,91 @@
+import nock from 'nock';
+import cache from '../src/services/cache/cache.service';
+import routeStore from '../src/services/routing/route-store.service';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { callTool } from './test-utils';
+
+describe('Tour planning', () => {
+  const start = { lat: 51.5, lng: -0.1 };
+  const elements = [
+    { type: 'node', id: 1, lat: 51.503, lon: -0.1, tags: { name: 'Old Church', historic: 'church' } },
+    { type: 'node', id: 2, lat: 51.503, lon: -0.095, tags: { name: 'City Museum', amenity: 'museum' } },
+    { type: 'node', id: 3, lat: 51.5, lon: -0.095, tags: { name: 'Market Cross', historic: 'monument' } },
+    { type: 'node', id: 4, lat: 51.5, lon: -0.0955, tags: { name: 'Market Cross', historic: 'monument' } },
+    { type: 'node', id: 5, lat: 51.53, lon: -0.1, tags: { name: 'Distant Tower', historic: 'tower' } },
+  ];
+
+  beforeEach(() => {
+    nock.cleanAll();
+    cache.flush();
+    routeStore.clear();
+    spatialIndex.clear();
+
+    nock('https://overpass-api.de')
+      .post('/api/interpreter')
+      .reply(200, { elements });
+    // POI discovery along the tour route
+    nock('https://overpass-api.de')
+      .persist()
+      .post('/api/interpreter')
+      .reply(200, { elements: [] });
+  });
+
+  afterAll(() => {
+    nock.cleanAll();
+  });
+
+  it('should build a loop through nearby stops with arrival times', async () => {
+    const data = await callTool('plan_tour', {
+      start,
+      interests: ['history', 'culture'],
+      timeBudget: 120,
+      startTime: '2026-06-01T10:00:00Z',
+      radius: 5000,
+    });
+
+    const names = data.itinerary.map((stop: any) => stop.pin.data.name);
+    expect(names).toHaveLength(3);
+    expect(names).toEqual(expect.arrayContaining(['Old Church', 'City Museum', 'Market Cross']));
+    expect(names).not.toContain('Distant Tower');
+
+    // Typical visit lengths per type, and times that follow each other
+    const museum = data.itinerary.find((stop: any) => stop.pin.data.name === 'City Museum');
+    expect(museum.dwellMinutes).toBe(45);
+    let previous = Date.parse(data.startTime);
+    data.itinerary.forEach((stop: any) => {
+      expect(Date.parse(stop.arrival)).toBeGreaterThan(previous);
+      expect(Date.parse(stop.departure) - Date.parse(stop.arrival)).toBe(stop.dwellMinutes * 60000);
+      previous = Date.parse(stop.departure);
+    });
+    expect(Date.parse(data.endTime)).toBeGreaterThan(previous);
+    expect(Date.parse(data.endTime) - Date.parse(data.startTime)).toBeLessThanOrEqual(120 * 60000);
+
+    const coordinates: number[][] = data.route.route.coordinates;
+    expect(coordinates[0]).toEqual([start.lng, start.lat]);
+    expect(coordinates[coordinates.length - 1]).toEqual([start.lng, start.lat]);
+    expect(routeStore.get(data.route.routeId)).toBeDefined();
+  });
+
+  it('should leave out stops that do not fit the budget', async () => {
+    const data = await callTool('plan_tour', {
+      start,
+      timeBudget: 30,
+      dwellTimes: { historical: 5, cultural: 60 },
+      startTime: '2026-06-01T10:00:00Z',
+      radius: 5000,
+    });
+
+    const names = data.itinerary.map((stop: any) => stop.pin.data.name);
+    expect(names).not.toContain('City Museum');
+    expect(names.length).toBeGreaterThan(0);
+    expect(data.itinerary.every((stop: any) => stop.dwellMinutes === 5)).toBe(true);
+  });
+
+  it('should return no route when nothing fits', async () => {
+    const data = await callTool('plan_tour', { start, timeBudget: 15, dwellTimes: { historical: 60, cultural: 60 }, radius: 5000 });
+
+    expect(data.itinerary).toEqual([]);
+    expect(data.route).toBeUndefined();
+    expect(data.message).toBe('No stops matching the interests fit in the time budget');
+  });
+});
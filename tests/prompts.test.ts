@@ -0,0 +1,81 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { promptRegistry } from '../src/prompts';
+
+describe('Prompt templates', () => {
+  it('should list the geo workflow prompts with their arguments', () => {
+    const prompts = promptRegistry.list();
+    const names = prompts.map(p => p.name);
+
+    expect(names).toEqual(['plan_walking_tour', 'describe_neighbourhood', 'compare_routes']);
+    expect(prompts[0].arguments.find(a => a.name === 'start')?.required).toBe(true);
+  });
+
+  it('should expand a walking tour into tool calls', () => {
+    const result = promptRegistry.get('plan_walking_tour', {
+      start: '48.8584, 2.2945',
+      end: '48.8606, 2.3376',
+      interests: 'history, architecture',
+    });
+    const text = result.messages[0].content.text;
+
+    expect(text).toContain('`generate_route`');
+    expect(text).toContain('"profile":"walking"');
+    expect(text).toContain('"interests":["history","architecture"]');
+    expect(text).toContain('`get_nearby_context`');
+    expect(text).toContain('`enrich_location`');
+  });
+
+  it('should plan a loop tour when no end is given', () => {
+    const result = promptRegistry.get('plan_walking_tour', {
+      start: '48.8584, 2.2945',
+      interests: 'history',
+      duration: '90',
+    });
+    const text = result.messages[0].content.text;
+
+    expect(text).toContain('`plan_tour`');
+    expect(text).toContain('"timeBudget":90');
+    expect(text).not.toContain('`generate_route`');
+  });
+
+  it('should reject tour durations that are not a usable number of minutes', () => {
+    for (const duration of ['abc', '-30', '45.5', '0', '5000']) {
+      expect(() => promptRegistry.get('plan_walking_tour', { start: '48.8584,2.2945', interests: 'history', duration }))
+        .toThrow('Invalid duration');
+    }
+  });
+
+  it('should emit one generate_route call per compared profile', () => {
+    const result = promptRegistry.get('compare_routes', {
+      start: '51.5,-0.12',
+      end: '51.52,-0.1',
+      profiles: 'walking,cycling',
+    });
+    const text = result.messages[0].content.text;
+
+    expect(text.match(/`generate_route`/g)).toHaveLength(2);
+  });
+
+  it('should reject missing required arguments', () => {
+    expect(() => promptRegistry.get('describe_neighbourhood', {})).toThrow(McpError);
+  });
+
+  it('should reject malformed coordinates', () => {
+    expect(() => promptRegistry.get('describe_neighbourhood', { location: 'Paris' }))
+      .toThrow('Invalid location');
+  });
+
+  it('should reject radii outside the enrich_location bounds', () => {
+    for (const radius of ['abc', '12.5', '5', '20000']) {
+      expect(() => promptRegistry.get('describe_neighbourhood', { location: '51.5,-0.12', radius }))
+        .toThrow('Invalid radius');
+    }
+
+    const text = promptRegistry.get('describe_neighbourhood', { location: '51.5,-0.12', radius: '800' }).messages[0].content.text;
+    expect(text).toContain('"radius":800');
+  });
+
+  it('should reject unknown prompts', () => {
+    expect(() => promptRegistry.get('missing')).toThrow('Unknown prompt: missing');
+  });
+});
@@ -0,0 +1,172 @@
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import routeStore from '../src/services/routing/route-store.service';
+import { resourceRegistry, ResourceSubscriptions } from '../src/resources';
+import { GeoPin } from '../src/types';
+import { createTestPin } from './test-utils';
+
+describe('Resources', () => {
+  const readJson = async (uri: string) => {
+    const result = await resourceRegistry.read(uri);
+    return JSON.parse(result.contents[0].text);
+  };
+
+  beforeEach(() => {
+    spatialIndex.clear();
+    routeStore.clear();
+    spatialIndex.addPin(createTestPin('pin1', 51.5074, -0.1278)); // Trafalgar Square
+    spatialIndex.addPin(createTestPin('pin2', 51.5033, -0.1195)); // London Eye
+    spatialIndex.addPin(createTestPin('pin3', 48.8566, 2.3522)); // Paris
+  });
+
+  it('should list resource templates', () => {
+    const templates = resourceRegistry.listTemplates().map(t => t.uriTemplate);
+
+    expect(templates).toEqual(expect.arrayContaining([
+      'geocontext://pins{?cursor}',
+      'geocontext://pins/{id}',
+      'geocontext://pins/bbox/{west},{south},{east},{north}',
+      'geocontext://pins/near/{lat},{lng}/{radius}',
+      'geocontext://routes/{routeId}',
+    ]));
+  });
+
+  it('should read a pin by ID', async () => {
+    const pin = await readJson('geocontext://pins/pin2');
+    expect(pin.id).toBe('pin2');
+  });
+
+  it('should reject unknown pin IDs', async () => {
+    await expect(resourceRegistry.read('geocontext://pins/missing')).rejects.toThrow('Pin not found: missing');
+  });
+
+  it('should read pins in a bounding box', async () => {
+    const data = await readJson('geocontext://pins/bbox/-0.2,51.45,-0.05,51.55');
+
+    expect(data.totalPins).toBe(2);
+    expect(data.pins.map((p: GeoPin) => p.id).sort()).toEqual(['pin1', 'pin2']);
+  });
+
+  it('should read pins in a bounding box crossing the antimeridian', async () => {
+    spatialIndex.addPin(createTestPin('fiji', -17.7, 179.9));
+    spatialIndex.addPin(createTestPin('samoa', -13.8, -179.9));
+
+    const data = await readJson('geocontext://pins/bbox/179,-20,-179,-10');
+
+    expect(data.totalPins).toBe(2);
+    expect(data.pins.map((p: GeoPin) => p.id).sort()).toEqual(['fiji', 'samoa']);
+  });
+
+  it('should read pins near a location, nearest first', async () => {
+    const data = await readJson('geocontext://pins/near/51.5074,-0.1278/2000');
+
+    expect(data.pins.map((p: GeoPin) => p.id)).toEqual(['pin1', 'pin2']);
+  });
+
+  it('should page through all pins with a cursor', async () => {
+    for (let i = 0; i < 150; i++) {
+      spatialIndex.addPin(createTestPin(`bulk${String(i).padStart(3, '0')}`, 40 + i * 0.001, 10));
+    }
+
+    const first = await readJson('geocontext://pins');
+    expect(first.totalPins).toBe(153);
+    expect(first.pins).toHaveLength(100);
+
+    const second = await readJson(`geocontext://pins?cursor=${first.nextCursor}`);
+    expect(second.pins).toHaveLength(53);
+    expect(second.nextCursor).toBeUndefined();
+
+    const ids = [...first.pins, ...second.pins].map((p: GeoPin) => p.id);
+    expect(new Set(ids).size).toBe(153);
+  });
+
+  it('should reject malformed template parameters', async () => {
+    await expect(resourceRegistry.read('geocontext://pins/near/abc,-0.1/100')).rejects.toThrow('Invalid lat');
+  });
+
+  it('should read a stored route by ID', async () => {
+    routeStore.save(
+      { start: { lat: 51.5, lng: -0.12 }, end: { lat: 51.51, lng: -0.1 } },
+      {
+        routeId: 'route_test',
+        route: { distance: 100, duration: 60, coordinates: [[-0.12, 51.5], [-0.1, 51.51]] },
+        contextualPins: 0,
+        pins: [],
+        message: 'ok',
+      }
+    );
+
+    const route = await readJson('geocontext://routes/route_test');
+    expect(route.routeId).toBe('route_test');
+    expect(route.request.start).toEqual({ lat: 51.5, lng: -0.12 });
+
+    const routes = await readJson('geocontext://routes');
+    expect(routes.totalRoutes).toBe(1);
+  });
+
+  it('should reject unknown resources', async () => {
+    await expect(resourceRegistry.read('geocontext://unknown')).rejects.toThrow('Unknown resource');
+  });
+
+  describe('Subscriptions', () => {
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+
+    it('should notify subscribers when a pin changes inside the scope', async () => {
+      const notified: string[] = [];
+      const subscriptions = new ResourceSubscriptions(resourceRegistry, async uri => {
+        notified.push(uri);
+      });
+
+      subscriptions.subscribe('geocontext://pins/near/51.5074,-0.1278/1000');
+      subscriptions.subscribe('geocontext://pins/bbox/2.2,48.8,2.4,48.9');
+      subscriptions.subscribe('geocontext://pins/bbox/179,-20,-179,-10');
+      subscriptions.subscribe('geocontext://stats');
+
+      spatialIndex.addPin(createTestPin('pin4', 51.508, -0.128));
+      spatialIndex.addPin(createTestPin('pin5', 51.509, -0.127));
+      spatialIndex.addPin(createTestPin('samoa', -13.8, -179.9));
+      await flush();
+
+      expect(notified.sort()).toEqual([
+        'geocontext://pins/bbox/179,-20,-179,-10',
+        'geocontext://pins/near/51.5074,-0.1278/1000',
+        'geocontext://stats',
+      ]);
+      subscriptions.dispose();
+    });
+
+    it('should notify on removal and updates of a subscribed pin', async () => {
+      const notified: string[] = [];
+      const subscriptions = new ResourceSubscriptions(resourceRegistry, async uri => {
+        notified.push(uri);
+      });
+
+      subscriptions.subscribe('geocontext://pins/pin3');
+      spatialIndex.addPin({ ...createTestPin('pin3', 48.8566, 2.3522), radius: 200 });
+      await flush();
+      spatialIndex.removePin('pin3');
+      await flush();
+
+      expect(notified).toEqual(['geocontext://pins/pin3', 'geocontext://pins/pin3']);
+      subscriptions.dispose();
+    });
+
+    it('should stop notifying after unsubscribe', async () => {
+      const notified: string[] = [];
+      const subscriptions = new ResourceSubscriptions(resourceRegistry, async uri => {
+        notified.push(uri);
+      });
+
+      subscriptions.subscribe('geocontext://pins');
+      subscriptions.unsubscribe('geocontext://pins');
+      spatialIndex.addPin(createTestPin('pin6', 51.5, -0.1));
+      await flush();
+
+      expect(notified).toHaveLength(0);
+    });
+
+    it('should reject subscriptions to resources without change tracking', () => {
+      const subscriptions = new ResourceSubscriptions(resourceRegistry, async () => undefined);
+      expect(() => subscriptions.subscribe('geocontext://routes/route_x')).toThrow('does not support subscriptions');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import nock from 'nock';
+import cache from '../src/services/cache/cache.service';
+import routingService from '../src/services/routing/routing.service';
+import { ProviderMatrixRequest, RoutingProvider } from '../src/types/routing.types';
+import { callTool } from './test-utils';
+
+describe('Route matrix', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+    cache.flush();
+  });
+
+  afterAll(() => {
+    nock.cleanAll();
+  });
+
+  it('should estimate every pair without a routing provider or POI discovery', async () => {
+    const overpass = nock('https://overpass-api.de').post('/api/interpreter').reply(200, { elements: [] });
+
+    const data = await callTool('get_route_matrix', {
+      origins: [{ lat: 51.5, lng: -0.12 }, { lat: 51.51, lng: -0.1 }],
+      destinations: [{ lat: 51.51, lng: -0.1 }, { lat: 51.52, lng: -0.08 }, { lat: 51.5, lng: -0.12 }],
+      profile: 'walking',
+    });
+
+    expect(data.source).toBe('estimate');
+    expect(data.durations).toHaveLength(2);
+    expect(data.durations[0]).toHaveLength(3);
+    expect(data.distances[1][0]).toBe(0);
+    expect(data.distances[0][0]).toBe(data.distances[1][2]);
+    // 5 km/h
+    expect(data.durations[0][0]).toBeCloseTo(data.distances[0][0] / (5 / 3.6), -1);
+    expect(overpass.isDone()).toBe(false);
+  });
+
+  it('should time fallback routes at the same profile speed as the estimated matrix', async () => {
+    nock('https://overpass-api.de').post('/api/interpreter').reply(200, { elements: [] });
+    const start = { lat: 51.5, lng: -0.12 };
+    const end = { lat: 51.51, lng: -0.1 };
+
+    const route = await callTool('generate_route', { start, end, profile: 'walking' });
+    const matrix = await callTool('get_route_matrix', { origins: [start], destinations: [end], profile: 'walking' });
+
+    // 5 km/h over the straight line; the matrix adds its detour allowance on top
+    expect(route.route.duration).toBeCloseTo(route.route.distance / (5 / 3.6), 0);
+    expect(matrix.durations[0][0] / route.route.duration).toBeCloseTo(matrix.distances[0][0] / route.route.distance, 1);
+  });
+
+  describe('with a routing provider', () => {
+    const service = routingService as unknown as { provider: RoutingProvider | null };
+    const original = service.provider;
+    let requests: ProviderMatrixRequest[];
+    let failing: boolean;
+
+    beforeEach(() => {
+      requests = [];
+      failing = false;
+      service.provider = {
+        name: 'osrm',
+        supportsAlternatives: true,
+        route: async () => [],
+        matrix: async request => {
+          requests.push(request);
+          if (failing) {
+            throw new Error('Service unavailable');
+          }
+          return {
+            durations: request.sources.map((_, i) => request.destinations.map((_, j) => 100 * (i + 1) + j)),
+            distances: request.sources.map((_, i) => request.destinations.map((_, j) => 1000 * (i + 1) + j)),
+          };
+        },
+      };
+    });
+
+    afterAll(() => {
+      service.provider = original;
+    });
+
+    it('should only request uncached pairs from the provider', async () => {
+      const a = { lat: 51.5, lng: -0.12 };
+      const b = { lat: 51.51, lng: -0.1 };
+      const c = { lat: 51.52, lng: -0.08 };
+
+      const first = await callTool('get_route_matrix', { origins: [a], destinations: [b] });
+      expect(first).toMatchObject({ source: 'osrm', durations: [[100]], distances: [[1000]] });
+
+      const second = await callTool('get_route_matrix', { origins: [a, c], destinations: [b] });
+      expect(requests).toHaveLength(2);
+      expect(requests[1]).toMatchObject({ sources: [c], destinations: [b] });
+      expect(second.durations).toEqual([[100], [100]]);
+
+      await callTool('get_route_matrix', { origins: [c, a], destinations: [b] });
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should fall back to estimates when the provider fails', async () => {
+      failing = true;
+
+      const data = await callTool('get_route_matrix', { origins: [{ lat: 48.85, lng: 2.29 }], destinations: [{ lat: 48.86, lng: 2.35 }] });
+      expect(data.source).toBe('estimate');
+      expect(data.durations[0][0]).toBeGreaterThan(0);
+    });
+  });
+});
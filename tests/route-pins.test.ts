@@ -0,0 +1,82 @@
+import nock from 'nock';
+import cache from '../src/services/cache/cache.service';
+import routeStore from '../src/services/routing/route-store.service';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { toolRegistry } from '../src/tools';
+
+describe('Route pin ranking', () => {
+  const node = (id: number, name: string, lat: number, lon: number, tags: Record<string, string>) => ({
+    type: 'node',
+    id,
+    lat,
+    lon,
+    tags: { name, ...tags },
+  });
+
+  // Along a straight route east on latitude 48.85, where 0.001 degrees of longitude are about 73 m
+  const elements = [
+    node(1, 'Corner Bistro', 48.85225, 2.295, { amenity: 'restaurant' }),  // ~370 m along, 250 m off
+    node(2, 'River Museum', 48.85045, 2.32, { tourism: 'museum' }),        // ~2200 m along, 50 m off
+    node(3, 'Roadside Diner', 48.8501, 2.33, { amenity: 'restaurant' }),    // ~2930 m along, 11 m off
+    node(4, 'Art Museum', 48.8473, 2.34, { tourism: 'museum' }),            // ~3660 m along, 300 m off
+  ];
+
+  const generateRoute = async (args: Record<string, unknown>) => {
+    const result = await toolRegistry.call('generate_route', {
+      start: { lat: 48.85, lng: 2.29 },
+      end: { lat: 48.85, lng: 2.35 },
+      interests: ['culture'],
+      ...args,
+    });
+    return JSON.parse(result.content[0].text);
+  };
+  const names = (data: any) => data.pins.map((pin: any) => pin.data.name);
+
+  beforeEach(() => {
+    nock.cleanAll();
+    cache.flush();
+    routeStore.clear();
+    spatialIndex.clear();
+    nock('https://overpass-api.de')
+      .persist()
+      .post('/api/interpreter')
+      .reply(200, { elements });
+  });
+
+  afterAll(() => {
+    nock.cleanAll();
+  });
+
+  it('should annotate every pin with its position along the route, in travel order', async () => {
+    const data = await generateRoute({});
+
+    expect(data.contextualPins).toBe(4);
+    expect(names(data)).toEqual(['Corner Bistro', 'River Museum', 'Roadside Diner', 'Art Museum']);
+
+    const museum = data.pins[1].alongRoute;
+    expect(museum.distanceAlong).toBeGreaterThan(2180);
+    expect(museum.distanceAlong).toBeLessThan(2220);
+    expect(museum.offset).toBeGreaterThanOrEqual(48);
+    expect(museum.offset).toBeLessThanOrEqual(52);
+    // Driving detours: there and back at 50 km/h on roads 1.3 times the straight line
+    expect(museum.detourTime).toBe(Math.round(2 * museum.offset * 1.3 * 3.6 / 50));
+    expect(museum.relevance).toBe(1);
+    expect(data.pins[0].alongRoute.relevance).toBe(0);
+  });
+
+  it('should keep the top pins by the requested ranking', async () => {
+    expect(names(await generateRoute({ maxPins: 2, pinRanking: 'relevance' })))
+      .toEqual(['River Museum', 'Art Museum']);
+    expect(names(await generateRoute({ maxPins: 2, pinRanking: 'detour' })))
+      .toEqual(['River Museum', 'Roadside Diner']);
+    expect(names(await generateRoute({ maxPins: 3 })))
+      .toEqual(['River Museum', 'Roadside Diner', 'Art Museum']);
+  });
+
+  it('should rank by detour alone when no interests are given', async () => {
+    const data = await generateRoute({ interests: undefined, maxPins: 2 });
+
+    expect(data.pins.every((pin: any) => pin.alongRoute.relevance === 1)).toBe(true);
+    expect(names(data)).toEqual(['River Museum', 'Roadside Diner']);
+  });
+});
@@ -0,0 +1,409 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import nock from 'nock';
+import {
+  OpenRouteProvider,
+  OsrmProvider,
+  ValhallaProvider,
+  GraphHopperProvider,
+  MapboxProvider,
+} from '../src/services/routing/providers';
+import { decodePolyline } from '../src/services/routing/providers/provider.utils';
+import cache from '../src/services/cache/cache.service';
+import routingService from '../src/services/routing/routing.service';
+import { RoutingProvider } from '../src/types/routing.types';
+
+interface StubRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * Local HTTP server standing in for a routing engine; records requests and replies with JSON
+ */
+async function startStub(reply: (request: StubRequest) => unknown) {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const request: StubRequest = {
+        method: req.method || 'GET',
+        path: decodeURIComponent(url.pathname),
+        query: url.searchParams,
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      requests.push(request);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply(request)));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+function encodePolyline(coordinates: number[][], precision: number): string {
+  const factor = Math.pow(10, precision);
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+
+  const encodeValue = (value: number) => {
+    let current = value < 0 ? ~(value << 1) : value << 1;
+    while (current >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (current & 0x1f)) + 63);
+      current >>= 5;
+    }
+    encoded += String.fromCharCode(current + 63);
+  };
+
+  coordinates.forEach(([lng, lat]) => {
+    const scaledLat = Math.round(lat * factor);
+    const scaledLng = Math.round(lng * factor);
+    encodeValue(scaledLat - previousLat);
+    encodeValue(scaledLng - previousLng);
+    previousLat = scaledLat;
+    previousLng = scaledLng;
+  });
+
+  return encoded;
+}
+
+describe('Routing providers', () => {
+  const start = { lat: 51.5, lng: -0.12 };
+  const end = { lat: 51.51, lng: -0.1 };
+  const line = [[-0.12, 51.5], [-0.115, 51.502], [-0.11, 51.505], [-0.1, 51.51]];
+  let stub: Awaited<ReturnType<typeof startStub>>;
+
+  afterEach(async () => {
+    await stub?.close();
+  });
+
+  it('should decode precision 5 and 6 polylines', () => {
+    expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual([
+      [-120.2, 38.5],
+      [-120.95, 40.7],
+      [-126.453, 43.252],
+    ]);
+    expect(decodePolyline(encodePolyline(line, 6), 6)).toEqual(line);
+  });
+
+  describe('OpenRouteService', () => {
+    it('should send the key and language and keep step way points', async () => {
+      stub = await startStub(() => ({
+        features: [{
+          geometry: { type: 'LineString', coordinates: line },
+          properties: {
+            summary: { distance: 1800, duration: 1300 },
+            segments: [{
+              distance: 1800,
+              duration: 1300,
+              steps: [
+                { type: 11, instruction: 'Gehen Sie nach Nordosten', name: '-', distance: 600, duration: 430, way_points: [0, 1] },
+                { type: 0, instruction: 'Links abbiegen auf Strand', name: 'Strand', distance: 1200, duration: 870, way_points: [1, 3] },
+                { type: 10, instruction: 'Ziel erreicht', name: '-', distance: 0, duration: 0, way_points: [3, 3] },
+              ],
+            }],
+          },
+        }],
+      }));
+
+      const provider = new OpenRouteProvider({ baseUrl: `${stub.url}/ors/v2/`, apiKey: 'ors-key', timeout: 5000 });
+      const [route] = await provider.route({ locations: [start, end], profile: 'walking', language: 'de' });
+
+      const [request] = stub.requests;
+      expect(request.path).toBe('/ors/v2/directions/foot-walking/geojson');
+      expect(request.headers.authorization).toBe('ors-key');
+      expect(request.body).toMatchObject({ coordinates: [[-0.12, 51.5], [-0.1, 51.51]], language: 'de', instructions: true });
+      expect(request.body).not.toHaveProperty('alternative_routes');
+
+      expect(route).toMatchObject({ distance: 1800, duration: 1300, coordinates: line, language: 'de' });
+      expect(route.maneuvers!.map(m => [m.type, m.startIndex, m.endIndex])).toEqual([
+        ['depart', 0, 1],
+        ['turn_left', 1, 3],
+        ['arrive', 3, 3],
+      ]);
+      expect(route.maneuvers![0].streetName).toBeUndefined();
+      expect(route.maneuvers![1].streetName).toBe('Strand');
+    });
+
+    it('should request a matrix with sources and destinations as location indices', async () => {
+      stub = await startStub(() => ({ durations: [[600, null]], distances: [[1800, null]] }));
+
+      const provider = new OpenRouteProvider({ baseUrl: stub.url, timeout: 5000 });
+      const matrix = await provider.matrix({ sources: [start], destinations: [end, start], profile: 'driving' });
+
+      const [request] = stub.requests;
+      expect(request.path).toBe('/matrix/driving-car');
+      expect(request.body).toMatchObject({ sources: [0], destinations: [1, 2], metrics: ['duration', 'distance'] });
+      expect(matrix).toEqual({ durations: [[600, null]], distances: [[1800, null]] });
+    });
+  });
+
+  describe('OSRM', () => {
+    it('should build English instructions and locate maneuvers on the geometry', async () => {
+      stub = await startStub(() => ({
+        code: 'Ok',
+        routes: [{
+          distance: 1750,
+          duration: 1260,
+          geometry: { type: 'LineString', coordinates: line },
+          legs: [{
+            steps: [
+              { distance: 600, duration: 420, name: 'Savoy Street', maneuver: { type: 'depart', location: line[0] } },
+              { distance: 1150, duration: 840, name: 'Strand', maneuver: { type: 'turn', modifier: 'left', location: line[1] } },
+              { distance: 0, duration: 0, name: '', maneuver: { type: 'roundabout', modifier: 'right', exit: 2, location: line[2] } },
+              { distance: 0, duration: 0, name: '', maneuver: { type: 'arrive', location: line[3] } },
+            ],
+          }],
+        }],
+      }));
+
+      const provider = new OsrmProvider({ baseUrl: stub.url, timeout: 5000 });
+      const [route] = await provider.route({ locations: [start, end], profile: 'cycling', language: 'de' });
+
+      const [request] = stub.requests;
+      expect(request.path).toBe('/route/v1/bike/-0.12,51.5;-0.1,51.51');
+      expect(request.query.get('geometries')).toBe('geojson');
+      expect(request.query.get('steps')).toBe('true');
+
+      expect(route.language).toBe('en');
+      expect(route.maneuvers!.map(m => [m.type, m.instruction, m.startIndex, m.endIndex])).toEqual([
+        ['depart', 'Depart on Savoy Street', 0, 1],
+        ['turn_left', 'Turn left onto Strand', 1, 2],
+        ['enter_roundabout', 'Enter the roundabout and take exit 2', 2, 3],
+        ['arrive', 'Arrive at your destination', 3, 3],
+      ]);
+    });
+
+    it('should return no routes when OSRM finds none', async () => {
+      stub = await startStub(() => ({ code: 'NoRoute', routes: [] }));
+
+      const provider = new OsrmProvider({ baseUrl: stub.url, timeout: 5000 });
+      await expect(provider.route({ locations: [start, end], profile: 'driving', language: 'en' })).resolves.toEqual([]);
+    });
+
+    it('should request durations and distances from the table service', async () => {
+      stub = await startStub(() => ({ code: 'Ok', durations: [[0, 900]], distances: [[0, 2100]] }));
+
+      const provider = new OsrmProvider({ baseUrl: stub.url, timeout: 5000 });
+      const matrix = await provider.matrix({ sources: [start], destinations: [start, end], profile: 'walking' });
+
+      const [request] = stub.requests;
+      expect(request.path).toBe('/table/v1/foot/-0.12,51.5;-0.12,51.5;-0.1,51.51');
+      expect(request.query.get('sources')).toBe('0');
+      expect(request.query.get('destinations')).toBe('1;2');
+      expect(request.query.get('annotations')).toBe('duration,distance');
+      expect(matrix).toEqual({ durations: [[0, 900]], distances: [[0, 2100]] });
+    });
+  });
+
+  describe('Valhalla', () => {
+    it('should join legs and shift maneuver indices', async () => {
+      const firstLeg = line.slice(0, 3);
+      const secondLeg = line.slice(2);
+      stub = await startStub(() => ({
+        trip: {
+          language: 'fr-FR',
+          summary: { length: 1.8, time: 1300 },
+          legs: [
+            {
+              shape: encodePolyline(firstLeg, 6),
+              maneuvers: [
+                { type: 1, instruction: 'Marchez vers le nord-est.', length: 0.9, time: 650, begin_shape_index: 0, end_shape_index: 2 },
+                { type: 4, instruction: 'Vous êtes arrivé à votre étape.', length: 0, time: 0, begin_shape_index: 2, end_shape_index: 2 },
+              ],
+            },
+            {
+              shape: encodePolyline(secondLeg, 6),
+              maneuvers: [
+                { type: 15, instruction: 'Tournez à gauche sur Strand.', street_names: ['Strand'], length: 0.9, time: 650, begin_shape_index: 0, end_shape_index: 1 },
+                { type: 4, instruction: 'Vous êtes arrivé.', length: 0, time: 0, begin_shape_index: 1, end_shape_index: 1 },
+              ],
+            },
+          ],
+        },
+      }));
+
+      const provider = new ValhallaProvider({ baseUrl: stub.url, timeout: 5000 });
+      const [route] = await provider.route({
+        locations: [start, { lat: 51.505, lng: -0.11 }, end],
+        profile: 'wheelchair',
+        language: 'fr',
+      });
+
+      const [request] = stub.requests;
+      expect(request.path).toBe('/route');
+      expect(request.body).toMatchObject({
+        costing: 'pedestrian',
+        costing_options: { pedestrian: { type: 'wheelchair' } },
+        directions_options: { language: 'fr', units: 'kilometers' },
+      });
+      expect(request.body.locations[1]).toEqual({ lat: 51.505, lon: -0.11 });
+
+      expect(route.distance).toBeCloseTo(1800);
+      expect(route.coordinates).toEqual(line);
+      expect(route.language).toBe('fr-FR');
+      expect(route.maneuvers!.map(m => [m.type, m.startIndex, m.endIndex])).toEqual([
+        ['depart', 0, 2],
+        ['arrive', 2, 2],
+        ['turn_left', 2, 3],
+        ['arrive', 3, 3],
+      ]);
+      expect(route.maneuvers![2]).toMatchObject({ streetName: 'Strand', distance: 900 });
+    });
+
+    it('should convert matrix distances from kilometers', async () => {
+      stub = await startStub(() => ({
+        sources_to_targets: [[{ distance: 1.8, time: 1300 }, { distance: null, time: null }]],
+      }));
+
+      const provider = new ValhallaProvider({ baseUrl: stub.url, timeout: 5000 });
+      const matrix = await provider.matrix({ sources: [start], destinations: [end, start], profile: 'cycling' });
+
+      const [request] = stub.requests;
+      expect(request.path).toBe('/sources_to_targets');
+      expect(request.body).toMatchObject({ costing: 'bicycle', sources: [{ lat: 51.5, lon: -0.12 }] });
+      expect(matrix.durations).toEqual([[1300, null]]);
+      expect(matrix.distances[0][0]).toBeCloseTo(1800);
+      expect(matrix.distances[0][1]).toBeNull();
+    });
+  });
+
+  describe('GraphHopper', () => {
+    it('should pass the key as a parameter and convert milliseconds', async () => {
+      stub = await startStub(() => ({
+        paths: [{
+          distance: 1800,
+          time: 1300000,
+          points: { coordinates: line },
+          instructions: [
+            { text: 'Continue onto Savoy Street', street_name: 'Savoy Street', distance: 600, time: 430000, interval: [0, 1], sign: 0 },
+            { text: 'Turn sharp right onto Strand', street_name: 'Strand', distance: 1200, time: 870000, interval: [1, 3], sign: 3 },
+            { text: 'Arrive at destination', street_name: '', distance: 0, time: 0, interval: [3, 3], sign: 4 },
+          ],
+        }],
+      }));
+
+      const provider = new GraphHopperProvider({ baseUrl: stub.url, apiKey: 'gh-key', timeout: 5000 });
+      const [route] = await provider.route({ locations: [start, end], profile: 'driving', language: 'en', alternatives: 1 });
+
+      const [request] = stub.requests;
+      expect(request.query.get('key')).toBe('gh-key');
+      expect(request.body).toMatchObject({
+        profile: 'car',
+        locale: 'en',
+        points_encoded: false,
+        'algorithm': 'alternative_route',
+        'alternative_route.max_paths': 2,
+      });
+
+      expect(route.duration).toBe(1300);
+      expect(route.maneuvers!.map(m => [m.type, m.duration, m.startIndex, m.endIndex])).toEqual([
+        ['depart', 430, 0, 1],
+        ['sharp_right', 870, 1, 3],
+        ['arrive', 0, 3, 3],
+      ]);
+      expect(route.maneuvers![2].streetName).toBeUndefined();
+    });
+  });
+
+  describe('Mapbox', () => {
+    it('should keep localized instructions and request alternatives as a flag', async () => {
+      stub = await startStub(() => ({
+        code: 'Ok',
+        routes: [line, [...line].reverse()].map(coordinates => ({
+          distance: 1800,
+          duration: 1300,
+          geometry: { type: 'LineString', coordinates },
+          legs: [{
+            steps: [
+              { distance: 1800, duration: 1300, name: 'Strand', maneuver: { type: 'depart', location: coordinates[0], instruction: 'Dirígete al este por Strand' } },
+              { distance: 0, duration: 0, name: 'Strand', maneuver: { type: 'arrive', location: coordinates[3], instruction: 'Has llegado a tu destino' } },
+            ],
+          }],
+        })),
+      }));
+
+      const provider = new MapboxProvider({ baseUrl: stub.url, apiKey: 'mapbox-token', timeout: 5000 });
+      const routes = await provider.route({ locations: [start, end], profile: 'wheelchair', language: 'es', alternatives: 2 });
+
+      const [request] = stub.requests;
+      expect(request.path).toBe('/directions/v5/mapbox/walking/-0.12,51.5;-0.1,51.51');
+      expect(request.query.get('access_token')).toBe('mapbox-token');
+      expect(request.query.get('alternatives')).toBe('true');
+      expect(request.query.get('language')).toBe('es');
+
+      expect(routes).toHaveLength(2);
+      expect(routes[0].language).toBe('es');
+      expect(routes[0].maneuvers!.map(m => [m.instruction, m.startIndex, m.endIndex])).toEqual([
+        ['Dirígete al este por Strand', 0, 3],
+        ['Has llegado a tu destino', 3, 3],
+      ]);
+    });
+
+    it('should use the Matrix API for tables', async () => {
+      stub = await startStub(() => ({ code: 'Ok', durations: [[420]], distances: [[1500]] }));
+
+      const provider = new MapboxProvider({ baseUrl: stub.url, apiKey: 'mapbox-token', timeout: 5000 });
+      await provider.matrix({ sources: [start], destinations: [end], profile: 'cycling' });
+
+      const [request] = stub.requests;
+      expect(request.path).toBe('/directions-matrix/v1/mapbox/cycling/-0.12,51.5;-0.1,51.51');
+      expect(request.query.get('access_token')).toBe('mapbox-token');
+    });
+  });
+
+  describe('Routing service', () => {
+    afterAll(() => {
+      nock.cleanAll();
+    });
+
+    it('should ask the provider again after a failed route request', async () => {
+      nock('https://overpass-api.de')
+        .persist()
+        .post('/api/interpreter')
+        .reply(200, { elements: [] });
+
+      const service = routingService as unknown as { provider: RoutingProvider | null };
+      const original = service.provider;
+      const coordinates = [[-0.12, 51.5], [-0.11, 51.505], [-0.1, 51.51]];
+      let failing = true;
+      service.provider = {
+        name: 'osrm',
+        supportsAlternatives: false,
+        route: async () => {
+          if (failing) {
+            throw new Error('Service unavailable');
+          }
+          return [{ distance: 1800, duration: 400, coordinates }];
+        },
+      };
+
+      try {
+        cache.flush();
+        const request = { start, end, profile: 'cycling' as const };
+        await expect(routingService.generateRoute(request)).rejects.toThrow('Failed to generate route');
+
+        failing = false;
+        const response = await routingService.generateRoute(request);
+        expect(response.route.coordinates).toEqual(coordinates);
+        expect(response.route.duration).toBe(400);
+      } finally {
+        service.provider = original;
+      }
+    });
+  });
+});
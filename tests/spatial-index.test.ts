@@ -62,6 +62,29 @@ describe('SpatialIndexService', () => {
       const removed = spatialIndex.removePin('non-existent');
       expect(removed).toBe(false);
     });
+
+    it('should replace pins re-added with the same ID', () => {
+      spatialIndex.addPin(createTestPin('pin1', 51.5074, -0.1278));
+      spatialIndex.addPin(createTestPin('pin1', 48.8566, 2.3522));
+
+      const stats = spatialIndex.getStats();
+      expect(stats.totalPins).toBe(1);
+      expect(stats.indexSize).toBe(1);
+      expect(spatialIndex.queryByRadius({ lat: 51.5074, lng: -0.1278 }, 1000)).toHaveLength(0);
+    });
+
+    it('should emit change events', () => {
+      const events: string[] = [];
+      const unsubscribe = spatialIndex.onChange(event => events.push(`${event.type}:${event.pin.id}`));
+
+      spatialIndex.addPin(createTestPin('pin1', 51.5074, -0.1278));
+      spatialIndex.addPin(createTestPin('pin1', 51.5075, -0.1278));
+      spatialIndex.removePin('pin1');
+      unsubscribe();
+      spatialIndex.addPin(createTestPin('pin2', 51.5074, -0.1278));
+
+      expect(events).toEqual(['added:pin1', 'updated:pin1', 'removed:pin1']);
+    });
   });
   describe('Spatial Queries', () => {
     beforeEach(() => {
@@ -0,0 +1,68 @@
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { callTool, createTestPin } from './test-utils';
+
+describe('Spatial query tools', () => {
+  beforeEach(() => {
+    spatialIndex.clear();
+    spatialIndex.addPin(createTestPin('center', 0, 0));
+    spatialIndex.addPin(createTestPin('north', 0.01, 0));
+    spatialIndex.addPin(createTestPin('east', 0, 0.02));
+    spatialIndex.addPin(createTestPin('far', 10, 10));
+    spatialIndex.addPin(createTestPin('dateline', 0, 179.99));
+  });
+
+  it('should find pins in a polygon with distance and bearing from the origin', async () => {
+    const data = await callTool('query_pins_in_polygon', {
+      polygon: {
+        type: 'Polygon',
+        coordinates: [[[-0.05, -0.05], [0.05, -0.05], [0.05, 0.05], [-0.05, 0.05], [-0.05, -0.05]]],
+      },
+      origin: { lat: 0, lng: 0 },
+    });
+
+    expect(data.pins.map((m: any) => m.pin.id)).toEqual(['center', 'north', 'east']);
+    expect(data.pins[1].bearing).toBeCloseTo(0, 5);
+    expect(data.pins[2].bearing).toBeCloseTo(90, 1);
+    expect(data.pins[1].distance).toBeGreaterThan(1100);
+    expect(data.pins[1].distance).toBeLessThan(1120);
+  });
+
+  it('should accept MultiPolygon features', async () => {
+    const square = (lng: number, lat: number) =>
+      [[[lng - 0.1, lat - 0.1], [lng + 0.1, lat - 0.1], [lng + 0.1, lat + 0.1], [lng - 0.1, lat + 0.1], [lng - 0.1, lat - 0.1]]];
+    const data = await callTool('query_pins_in_polygon', {
+      polygon: {
+        type: 'Feature',
+        properties: null,
+        geometry: { type: 'MultiPolygon', coordinates: [square(0, 0), square(10, 10)] },
+      },
+    });
+
+    expect(data.totalPins).toBe(4);
+    expect(data.pins.map((m: any) => m.pin.id)).toContain('far');
+  });
+
+  it('should reject unclosed polygon rings', async () => {
+    await expect(callTool('query_pins_in_polygon', {
+      polygon: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1]]] },
+    })).rejects.toThrow('closed');
+  });
+
+  it('should query bounding boxes, including ones crossing the antimeridian', async () => {
+    const box = await callTool('query_pins_in_bbox', { west: -0.05, south: -0.05, east: 0.05, north: 0.05 });
+    expect(box.totalPins).toBe(3);
+    expect(box.origin).toEqual({ lat: 0, lng: 0 });
+
+    const dateline = await callTool('query_pins_in_bbox', { west: 179, south: -1, east: -179, north: 1 });
+    expect(dateline.pins.map((m: any) => m.pin.id)).toEqual(['dateline']);
+    expect(dateline.origin.lng).toBe(180);
+  });
+
+  it('should find the k nearest pins within a maximum distance', async () => {
+    const nearest = await callTool('find_nearest_pins', { location: { lat: 0, lng: 0 }, k: 2 });
+    expect(nearest.pins.map((m: any) => m.pin.id)).toEqual(['center', 'north']);
+
+    const bounded = await callTool('find_nearest_pins', { location: { lat: 0, lng: 0 }, k: 10, maxDistance: 1500 });
+    expect(bounded.pins.map((m: any) => m.pin.id)).toEqual(['center', 'north']);
+  });
+});
@@ -0,0 +1,33 @@
+import { toolRegistry } from '../src/tools';
+import { GeoPin } from '../src/types';
+
+/**
+ * Call a registered tool and parse its JSON result
+ */
+export const callTool = async (name: string, args: Record<string, unknown>) => {
+  const result = await toolRegistry.call(name, args);
+  return JSON.parse(result.content[0].text);
+};
+
+/**
+ * A verified test POI at a location, with any fields overridden
+ */
+export const createTestPin = (id: string, lat: number, lng: number, overrides: Partial<GeoPin> = {}): GeoPin => ({
+  id,
+  location: { lat, lng },
+  radius: 10,
+  type: 'poi',
+  data: {
+    name: `Test Pin ${id}`,
+    description: 'Test description',
+    category: ['test'],
+  },
+  metadata: {
+    source: 'test',
+    lastUpdated: new Date(),
+    verificationStatus: 'verified',
+    languages: ['en'],
+    tags: [],
+  },
+  ...overrides,
+});
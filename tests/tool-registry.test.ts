@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ToolRegistry, defineTool, toolRegistry, createProgressReporter } from '../src/tools';
+
+describe('ToolRegistry', () => {
+  const echoTool = defineTool({
+    name: 'echo',
+    description: 'Echo the input',
+    schema: z.object({
+      value: z.number().min(0).max(10),
+      label: z.string().default('none'),
+    }),
+    errorMessage: 'Failed to echo',
+    middleware: false,
+    handler: async (args) => args,
+  });
+
+  describe('Listing', () => {
+    it('should generate JSON Schema from the zod schema', () => {
+      const registry = new ToolRegistry().register(echoTool);
+      const [tool] = registry.list();
+
+      expect(tool.name).toBe('echo');
+      expect(tool.inputSchema.type).toBe('object');
+      expect(tool.inputSchema.required).toEqual(['value']);
+      expect((tool.inputSchema.properties as any).value).toMatchObject({ minimum: 0, maximum: 10 });
+      expect(tool.inputSchema).not.toHaveProperty('$schema');
+    });
+
+    it('should reject duplicate registrations', () => {
+      const registry = new ToolRegistry().register(echoTool);
+      expect(() => registry.register(echoTool)).toThrow('Tool already registered: echo');
+    });
+
+    it('should expose bounds for every server tool', () => {
+      const tools = toolRegistry.list();
+      const route = tools.find(t => t.name === 'generate_route')!;
+
+      expect(tools.map(t => t.name)).toEqual(expect.arrayContaining([
+        'generate_route',
+        'get_nearby_context',
+        'create_geopin',
+        'enrich_location',
+        'batch_generate_routes',
+        'batch_enrich_locations',
+        'batch_get_nearby_context',
+        'export_route_geojson',
+        'optimize_trip',
+        'plan_tour',
+        'schedule_itinerary',
+        'upcoming_along_route',
+        'get_route_matrix',
+        'get_isochrones',
+        'get_metrics',
+      ]));
+      expect((route.inputSchema.properties as any).bufferRadius).toMatchObject({ minimum: 50, maximum: 5000 });
+    });
+
+    it('should bound batch context queries', () => {
+      const batch = toolRegistry.list().find(t => t.name === 'batch_get_nearby_context')!;
+      expect((batch.inputSchema.properties as any).queries).toMatchObject({ minItems: 1, maxItems: 100 });
+    });
+  });
+
+  describe('Dispatch', () => {
+    it('should validate and apply defaults before calling the handler', async () => {
+      const registry = new ToolRegistry().register(echoTool);
+      const result = await registry.call('echo', { value: 3 });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({ value: 3, label: 'none' });
+    });
+
+    it('should reject invalid arguments', async () => {
+      const registry = new ToolRegistry().register(echoTool);
+      await expect(registry.call('echo', { value: 42 })).rejects.toThrow(McpError);
+    });
+
+    it('should reject unknown tools', async () => {
+      const registry = new ToolRegistry();
+      await expect(registry.call('missing', {})).rejects.toThrow('Unknown tool: missing');
+    });
+
+    it('should wrap unexpected handler errors', async () => {
+      const registry = new ToolRegistry().register(defineTool({
+        name: 'broken',
+        description: 'Always fails',
+        schema: z.object({}),
+        errorMessage: 'Failed to run broken',
+        middleware: false,
+        handler: async () => {
+          throw new Error('boom');
+        },
+      }));
+
+      await expect(registry.call('broken', {})).rejects.toThrow('Failed to run broken: boom');
+    });
+  });
+
+  describe('Progress', () => {
+    it('should pass the progress callback to handlers', async () => {
+      const updates: number[] = [];
+      const registry = new ToolRegistry().register(defineTool({
+        name: 'slow',
+        description: 'Reports progress',
+        schema: z.object({}),
+        errorMessage: 'Failed to run slow',
+        middleware: false,
+        handler: async (_args, { progress }) => {
+          progress({ completed: 1, total: 2 });
+          progress({ completed: 2, total: 2 });
+          return 'done';
+        },
+      }));
+
+      await registry.call('slow', {}, { progress: update => updates.push(update.completed) });
+      expect(updates).toEqual([1, 2]);
+    });
+
+    it('should emit strictly increasing progress notifications', async () => {
+      const sent: any[] = [];
+      const report = createProgressReporter('token-1', async notification => {
+        sent.push(notification);
+      });
+
+      report({ phase: 'routing', completed: 0 });
+      report({ phase: 'poi_discovery', completed: 1, total: 4 });
+      report({ phase: 'poi_discovery', completed: 1, total: 4 });
+      report({ phase: 'poi_discovery', completed: 2, failed: 1, total: 4 });
+
+      expect(sent.map(n => n.params.progress)).toEqual([0, 1, 3]);
+      expect(sent[2]).toEqual({
+        method: 'notifications/progress',
+        params: {
+          progressToken: 'token-1',
+          progress: 3,
+          total: 4,
+          message: 'poi_discovery: 2/4 completed, 1 failed',
+        },
+      });
+    });
+
+    it('should not emit anything without a progress token', () => {
+      const sent: unknown[] = [];
+      const report = createProgressReporter(undefined, async notification => {
+        sent.push(notification);
+      });
+
+      report({ completed: 1 });
+      expect(sent).toHaveLength(0);
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should pass the request signal to handlers', async () => {
+      const controller = new AbortController();
+      const registry = new ToolRegistry().register(defineTool({
+        name: 'signal',
+        description: 'Reports whether it was cancelled',
+        schema: z.object({}),
+        errorMessage: 'Failed to run signal',
+        middleware: false,
+        handler: async (_args, { signal }) => {
+          controller.abort();
+          return signal.aborted;
+        },
+      }));
+
+      const result = await registry.call('signal', {}, { signal: controller.signal });
+      expect(JSON.parse(result.content[0].text)).toBe(true);
+    });
+
+    it('should reject cancelled requests before they reach the handler', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      let called = false;
+      const registry = new ToolRegistry().register(defineTool({
+        name: 'cancelled_tool',
+        description: 'Never runs',
+        schema: z.object({}),
+        errorMessage: 'Failed to run cancelled_tool',
+        handler: async () => {
+          called = true;
+          return 'done';
+        },
+      }));
+
+      await expect(registry.call('cancelled_tool', {}, { signal: controller.signal }))
+        .rejects.toThrow('Request cancelled in cancelled_tool');
+      expect(called).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import nock from 'nock';
+import cache from '../src/services/cache/cache.service';
+import routeStore from '../src/services/routing/route-store.service';
+import spatialIndex from '../src/services/spatial/spatial-index.service';
+import { callTool } from './test-utils';
+
+describe('upcoming_along_route', () => {
+  const node = (id: number, name: string, lat: number, lon: number) => ({
+    type: 'node',
+    id,
+    lat,
+    lon,
+    tags: { name, tourism: 'museum' },
+  });
+
+  let routeId: string;
+
+  beforeAll(async () => {
+    nock.cleanAll();
+    cache.flush();
+    routeStore.clear();
+    spatialIndex.clear();
+    nock('https://overpass-api.de')
+      .persist()
+      .post('/api/interpreter')
+      .reply(200, {
+        elements: [
+          node(1, 'First Museum', 48.8502, 2.30),   // ~730 m along
+          node(2, 'Second Museum', 48.8502, 2.315), // ~1830 m along
+          node(3, 'Third Museum', 48.855, 2.3202),  // ~2760 m along, past the waypoint
+        ],
+      });
+
+    // Straight-line route: about 2200 m east, then 1110 m north from the waypoint, at 50 km/h
+    const route = await callTool('generate_route', {
+      start: { lat: 48.85, lng: 2.29 },
+      waypoints: [{ lat: 48.85, lng: 2.32 }],
+      end: { lat: 48.86, lng: 2.32 },
+      maxPins: 1,
+    });
+    routeId = route.routeId;
+    expect(route.pins).toHaveLength(1);
+  });
+
+  afterAll(() => {
+    nock.cleanAll();
+  });
+
+  const upcoming = (args: Record<string, unknown>) =>
+    callTool('upcoming_along_route', { routeId, position: { lat: 48.8503, lng: 2.31 }, ...args });
+  const names = (data: any) => data.pins.map(({ pin }: any) => pin.data.name);
+
+  it('should snap the position and report pins and maneuvers ahead within 2 km', async () => {
+    const data = await upcoming({});
+
+    expect(data.offRoute).toBe(false);
+    expect(data.snappedPosition.lat).toBeCloseTo(48.85, 4);
+    expect(data.snappedPosition.lng).toBeCloseTo(2.31, 4);
+    expect(data.progress.distanceAlong).toBeGreaterThan(1440);
+    expect(data.progress.distanceAlong).toBeLessThan(1490);
+    expect(data.progress.fraction).toBeCloseTo(data.progress.distanceAlong / (data.progress.distanceAlong + data.progress.distanceRemaining), 2);
+
+    // Every pin found along the route is kept, not only the response preview
+    expect(names(data)).toEqual(['Second Museum', 'Third Museum']);
+    expect(data.pins[0].distanceAhead).toBeGreaterThan(340);
+    expect(data.pins[0].distanceAhead).toBeLessThan(390);
+
+    expect(data.maneuvers.map(({ maneuver }: any) => maneuver.type)).toEqual(['straight', 'arrive']);
+    const next = data.maneuvers[0];
+    expect(next.distanceAhead).toBeGreaterThan(710);
+    expect(next.distanceAhead).toBeLessThan(760);
+    expect(next.timeAhead).toBe(Math.round(next.distanceAhead * 0.072));
+    expect(data.lookAhead.distance).toBe(data.progress.distanceRemaining);
+  });
+
+  it('should end the window at the look-ahead distance or time, whichever comes first', async () => {
+    const byDistance = await upcoming({ lookAheadDistance: 500 });
+    expect(names(byDistance)).toEqual(['Second Museum']);
+    expect(byDistance.maneuvers).toEqual([]);
+    expect(byDistance.lookAhead.distance).toBe(500);
+
+    // A minute at 50 km/h is about 830 m
+    const byTime = await upcoming({ lookAheadTime: 60 });
+    expect(names(byTime)).toEqual(['Second Museum']);
+    expect(byTime.maneuvers.map(({ maneuver }: any) => maneuver.type)).toEqual(['straight']);
+    expect(byTime.lookAhead.time).toBe(60);
+
+    const both = await upcoming({ lookAheadDistance: 500, lookAheadTime: 60 });
+    expect(both.lookAhead.distance).toBe(500);
+  });
+
+  it('should flag positions away from the route', async () => {
+    const data = await upcoming({ position: { lat: 48.86, lng: 2.3 } });
+
+    expect(data.offRoute).toBe(true);
+    expect(data.distanceFromRoute).toBeGreaterThan(1000);
+    expect(data.message).toContain('from the route');
+  });
+
+  it('should keep progress on a loop route when passing the start again', async () => {
+    const start = { lat: 48.85, lng: 2.29 };
+    const loop = await callTool('generate_route', {
+      start,
+      waypoints: [{ lat: 48.85, lng: 2.31 }, { lat: 48.86, lng: 2.3 }],
+      end: start,
+    });
+    const at = (position: { lat: number; lng: number }) =>
+      callTool('upcoming_along_route', { routeId: loop.routeId, position });
+
+    // Closer to the first leg than to the last, so this alone snaps to just after the start
+    const nearStart = { lat: 48.8501, lng: 2.2903 };
+    const setOff = await at(nearStart);
+    expect(setOff.progress.distanceAlong).toBeLessThan(40);
+
+    const lastLeg = await at({ lat: 48.855, lng: 2.295 });
+    expect(lastLeg.progress.fraction).toBeGreaterThan(0.7);
+
+    const back = await at(nearStart);
+    expect(back.offRoute).toBe(false);
+    expect(back.progress.distanceRemaining).toBeLessThan(40);
+    expect(back.pins).toEqual([]);
+  });
+
+  it('should reject unknown routes', async () => {
+    await expect(upcoming({ routeId: 'route_missing' })).rejects.toThrow('Route not found: route_missing');
+  });
+});